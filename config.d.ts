@@ -5,22 +5,113 @@ export interface PlayerConfig {
 }
 
 export interface AudiobookshelfRepositoryConfig {
+  url: string;
+  /** Omit to log in with username and password on first start */
+  apiKey?: string;
+  libraryId?: string;
+  libraryIds?: string[] | 'all';
+  excludeShowIds?: string[];
+  excludeEpisodeIds?: string[];
+  bookEpisodes?: 'chapters' | 'tracks';
+  pageSize?: number;
+  maxConcurrentRequests?: number;
+  useExpandedList?: boolean;
+  collectionIds?: string[];
+  playlistIds?: string[];
+  seriesIds?: string[];
+  includeLibraryItems?: boolean;
+  coverSize?: number;
+}
+
+export interface ArchiveOrgRepositoryConfig {
+  itemIds?: string[];
+  search?: {
+    query: string;
+    maxItems?: number;
+    sort?: string;
+  };
+  cacheTtlHours?: number;
+  quality?: 'highest' | 'lowest' | 'auto' | number;
+}
+
+export interface JellyfinRepositoryConfig {
   url: string;
   apiKey: string;
+  userId: string;
   libraryId: string;
   excludeShowIds?: string[];
   excludeEpisodeIds?: string[];
 }
 
+export interface PlexRepositoryConfig {
+  url: string;
+  token: string;
+  libraryId: string;
+  showsAs?: 'albums' | 'artists';
+  excludeShowIds?: string[];
+  excludeEpisodeIds?: string[];
+  coverSize?: number;
+}
+
+export interface SubsonicRepositoryConfig {
+  url: string;
+  username: string;
+  password: string;
+  genre?: string;
+  musicFolderId?: string;
+  excludeShowIds?: string[];
+  coverSize?: number;
+}
+
+export interface RssFeedRepositoryConfig {
+  feedUrls: string[];
+  corsProxy?: string;
+}
+
+export interface WebDavRepositoryConfig {
+  url: string;
+  username?: string;
+  password?: string;
+  progressStorage?: 'local' | 'server';
+  progressFile?: string;
+}
+
+export interface HomeAssistantRepositoryConfig {
+  url: string;
+  accessToken: string;
+  rootContentId?: string;
+}
+
+export interface ManifestRepositoryConfig {
+  manifestUrl?: string;
+  playlistUrls?: string[];
+}
+
+export interface LocalFilesRepositoryConfig {
+  readTags?: boolean;
+}
+
 export interface SampleRepositoryConfig {
   // Sample repository has no configuration
 }
 
 export type RepositoryConfig = 
   | { type: 'audiobookshelf'; config: AudiobookshelfRepositoryConfig }
+  | { type: 'archiveorg'; config: ArchiveOrgRepositoryConfig }
+  | { type: 'jellyfin'; config: JellyfinRepositoryConfig }
+  | { type: 'plex'; config: PlexRepositoryConfig }
+  | { type: 'subsonic'; config: SubsonicRepositoryConfig }
+  | { type: 'rss'; config: RssFeedRepositoryConfig }
+  | { type: 'webdav'; config: WebDavRepositoryConfig }
+  | { type: 'homeassistant'; config: HomeAssistantRepositoryConfig }
+  | { type: 'manifest'; config?: ManifestRepositoryConfig }
+  | { type: 'local'; config?: LocalFilesRepositoryConfig }
   | { type: 'sample'; config?: SampleRepositoryConfig };
 
 export const config: {
-  repository: RepositoryConfig;
+  /** A single repository, or several whose catalogs are merged into one bar */
+  repository: RepositoryConfig | RepositoryConfig[];
+  /** Show the last loaded catalog immediately on startup and refresh it in the background */
+  catalogCache?: boolean;
   player?: PlayerConfig;
 };
@@ -8,11 +8,26 @@ export const config = {
   //   type: 'audiobookshelf',
   //   config: {
   //     url: 'https://your-audiobookshelf-server.com',
+  //     // Optional: leave out apiKey to log in with username and password on first start
   //     apiKey: 'your-api-key-here',
   //     libraryId: 'your-library-id-here',
+  //     // Alternative to libraryId: several libraries, or 'all', grouped by library
+  //     // libraryIds: ['podcast-library-id', 'audiobook-library-id'],
   //     // Optional: Exclude specific shows or episodes by ID
   //     excludeShowIds: [],
   //     excludeEpisodeIds: [],
+  //     // Optional: split books into 'chapters' (default) or audio 'tracks'
+  //     bookEpisodes: 'chapters',
+  //     // Optional: tune catalog loading for large libraries
+  //     pageSize: 50,
+  //     maxConcurrentRequests: 4,
+  //     useExpandedList: false,
+  //     // Optional: collections, playlists and series as shows of their own
+  //     playlistIds: [],
+  //     collectionIds: [],
+  //     seriesIds: [],
+  //     // Optional: set to false to show only the playlists, collections and series
+  //     includeLibraryItems: true,
   //   },
   // },
 
@@ -26,15 +41,137 @@ export const config = {
   //       'adventures_sherlockholmes_1007_librivox',
   //       'moby_dick_librivox',
   //       'invisible_man_librivox',
-  //     ]
+  //     ],
+  //     // Optional: add the results of an advanced search
+  //     // search: {
+  //     //   query: 'collection:librivoxaudio AND subject:"children"',
+  //     //   maxItems: 20,
+  //     //   sort: 'downloads desc',
+  //     // },
+  //     // Optional: hours before cached metadata is fetched again (default: 24)
+  //     // cacheTtlHours: 24,
+  //     // Optional: 'highest' (default), 'lowest', 'auto' or a target bitrate in kbps, e.g. 64
+  //     // quality: 'auto',
   //   },
   // },
 
-  // Alternative: Use sample repository for testing (no audio playback!)
+  // Alternative: bring your own 'jellyfin' server: https://jellyfin.org/
+  // repository: {
+  //   type: 'jellyfin',
+  //   config: {
+  //     url: 'https://your-jellyfin-server.com',
+  //     apiKey: 'your-api-key-here',
+  //     userId: 'your-user-id-here',
+  //     // Audiobook or music library - each folder/album becomes a show
+  //     libraryId: 'your-library-id-here',
+  //     // Optional: Exclude specific shows or episodes by ID
+  //     excludeShowIds: [],
+  //     excludeEpisodeIds: [],
+  //   },
+  // },
+
+  // Alternative: a Plex Media Server music or audiobook library
+  // repository: {
+  //   type: 'plex',
+  //   config: {
+  //     url: 'http://192.168.1.10:32400',
+  //     token: 'your-x-plex-token',
+  //     libraryId: '3',
+  //     // Optional: 'albums' (default) or 'artists' as shows
+  //     // showsAs: 'albums',
+  //   },
+  // },
+
+  // Alternative: albums from a Subsonic-compatible music server (Navidrome, Airsonic, Gonic, ...)
+  // repository: {
+  //   type: 'subsonic',
+  //   config: {
+  //     url: 'https://navidrome.example.com',
+  //     username: 'your-username',
+  //     password: 'your-password',
+  //     // Optional: only albums of this genre
+  //     // genre: 'Audio Drama',
+  //   },
+  // },
+
+  // Alternative: subscribe to plain RSS/Atom podcast feeds (no server needed)
+  // repository: {
+  //   type: 'rss',
+  //   config: {
+  //     feedUrls: [
+  //       'https://example.com/podcast/feed.xml',
+  //     ],
+  //     // Optional: prefix for feeds that don't allow cross-origin requests
+  //     // corsProxy: 'https://your-cors-proxy.example.com/?',
+  //   },
+  // },
+
+  // Alternative: a WebDAV share (e.g. Nextcloud) - each subfolder becomes a show
+  // repository: {
+  //   type: 'webdav',
+  //   config: {
+  //     url: 'https://cloud.example.com/remote.php/dav/files/alice/Audiobooks',
+  //     // Optional: credentials (audio is then downloaded before playback)
+  //     // username: 'alice',
+  //     // password: 'app-password',
+  //     // Optional: 'server' keeps resume positions in a JSON file on the share
+  //     // progressStorage: 'local',
+  //   },
+  // },
+
+  // Alternative: media exposed through Home Assistant's media browser
+  // repository: {
+  //   type: 'homeassistant',
+  //   config: {
+  //     url: 'http://homeassistant.local:8123',
+  //     accessToken: 'your-long-lived-access-token',
+  //     // Optional: directory whose subdirectories become shows (default: media source root)
+  //     // rootContentId: 'media-source://media_source/local/Audiobooks',
+  //   },
+  // },
+
+  // Alternative: a catalog.json (or M3U playlists) and audio files served next to index.html
+  // repository: {
+  //   type: 'manifest',
+  //   config: {
+  //     // Optional: defaults to 'catalog.json'
+  //     // manifestUrl: 'catalog.json',
+  //     // Optional: extended M3U playlists, one show each
+  //     // playlistUrls: ['audio/my-audiobook.m3u'],
+  //   },
+  // },
+
+  // Alternative: play audio files from this device - a folder is chosen (or dropped)
+  // on startup, and every subfolder with audio files becomes a show
+  // repository: {
+  //   type: 'local',
+  //   config: {
+  //     // Optional: set to false to use file names only (faster for huge folders)
+  //     // readTags: true,
+  //   },
+  // },
+
+  // Alternative: combine several backends into one bar by passing an array
+  // repository: [
+  //   {
+  //     type: 'audiobookshelf',
+  //     config: { url: '...', apiKey: '...', libraryId: '...' },
+  //   },
+  //   {
+  //     type: 'archiveorg',
+  //     config: { itemIds: ['alices_adventures_1003'] },
+  //   },
+  // ],
+
+  // Alternative: Use sample repository for testing (generated audio, works offline)
   repository: {
     type: 'sample',
   },
 
+  // Optional: show the last loaded catalog instantly on startup (and while the
+  // server is unreachable), refreshing it in the background
+  // catalogCache: true,
+
   // Player configuration
   player: {
     tracePerformance: false,
@@ -0,0 +1,61 @@
+// Service Worker for the 'webdav' repository with credentials
+//
+// Audio and image elements can't send an Authorization header, so this worker adds it to
+// their requests for files below a registered WebDAV folder. The request is otherwise
+// passed on unchanged - including Range headers - so audio streams and seeks as usual.
+// Credentials are kept in the Cache API, since the browser stops idle workers at any time.
+
+const CACHE_NAME = 'xmb-webdav-auth';
+const CREDENTIALS_KEY = '/__xmb-webdav-auth__';
+
+// Folder URL prefix → Authorization header value
+let credentials = null;
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  // Control the already open page, so it doesn't have to reload
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'webdav-auth') return;
+
+  event.waitUntil(
+    loadCredentials().then(async (current) => {
+      current[event.data.prefix] = event.data.authorization;
+      const cache = await caches.open(CACHE_NAME);
+      await cache.put(CREDENTIALS_KEY, new Response(JSON.stringify(current)));
+      event.ports[0]?.postMessage('registered');
+    })
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET' || request.headers.has('Authorization')) return;
+  // Leave other requests to the browser once the credentials are known
+  if (credentials && !Object.keys(credentials).some((p) => request.url.startsWith(p))) return;
+
+  event.respondWith(
+    loadCredentials().then((current) => {
+      const prefix = Object.keys(current).find((p) => request.url.startsWith(p));
+      if (!prefix) return fetch(request);
+
+      const headers = new Headers(request.headers);
+      headers.set('Authorization', current[prefix]);
+      return fetch(request.url, { headers, mode: 'cors', credentials: 'omit', cache: 'no-store' });
+    })
+  );
+});
+
+async function loadCredentials() {
+  if (!credentials) {
+    const cache = await caches.open(CACHE_NAME);
+    const stored = await cache.match(CREDENTIALS_KEY);
+    credentials = stored ? await stored.json() : {};
+  }
+  return credentials;
+}
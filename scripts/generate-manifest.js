@@ -0,0 +1,173 @@
+// Generates a catalog.json for the 'manifest' repository from a folder of audio files
+// Usage: node scripts/generate-manifest.js <folder> [--output catalog.json] [--covers covers]
+//
+// Every folder containing audio files becomes a show with its files as episodes, like the
+// 'local' repository does. Titles, track order and durations come from the files' tags, read
+// with music-metadata like the 'local' repository does in the browser.
+// Covers are an image in the folder (cover.jpg, folder.jpg, ...) or the embedded cover art
+// of the first file that has one, which is written to the covers folder. Audio and cover
+// URLs are relative to the output file, so the manifest should be served from there.
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { parseFile } from 'music-metadata';
+
+const AUDIO_EXTENSIONS = ['.mp3', '.m4a', '.m4b', '.aac', '.ogg', '.oga', '.opus', '.flac', '.wav', '.webm'];
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.webp', '.gif'];
+// Preferred names for a folder's cover image
+const COVER_NAMES = ['cover', 'folder', 'front', 'albumart'];
+const DEFAULT_ICON = '🎧';
+
+const PICTURE_EXTENSIONS = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'image/gif': '.gif',
+};
+
+function parseArgs(argv) {
+  const args = { folder: null, output: 'catalog.json', covers: null };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--output') args.output = argv[++i];
+    else if (argv[i] === '--covers') args.covers = argv[++i];
+    else args.folder = argv[i];
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+if (!args.folder || !args.output || args.covers === undefined) {
+  console.error('Usage: node scripts/generate-manifest.js <folder> [--output catalog.json] [--covers covers]');
+  process.exit(1);
+}
+
+const root = path.resolve(args.folder);
+const outputFile = path.resolve(args.output);
+const outputDir = path.dirname(outputFile);
+const coversDir = path.resolve(outputDir, args.covers ?? 'covers');
+
+const compareNames = (a, b) => a.localeCompare(b, undefined, { numeric: true });
+
+/**
+ * URL of a file relative to the manifest, with each path segment encoded
+ */
+function relativeUrl(filePath) {
+  return path.relative(outputDir, filePath).split(path.sep).map(encodeURIComponent).join('/');
+}
+
+/**
+ * Show/episode ID from a path below the scanned folder ('.' for the folder itself)
+ */
+function relativeId(filePath) {
+  return path.relative(root, filePath).split(path.sep).join('/') || '.';
+}
+
+/**
+ * Audio and image files per folder, for the folder and all its subfolders
+ */
+async function scanFolders(folder, result = new Map()) {
+  const entries = await fs.readdir(folder, { withFileTypes: true });
+  const files = [];
+
+  for (const entry of entries.sort((a, b) => compareNames(a.name, b.name))) {
+    // Skip hidden files and folders (.git, .DS_Store, ...)
+    if (entry.name.startsWith('.')) continue;
+
+    const fullPath = path.join(folder, entry.name);
+    if (entry.isDirectory()) {
+      await scanFolders(fullPath, result);
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+
+  result.set(folder, files);
+  return result;
+}
+
+async function readTags(filePath) {
+  try {
+    const { common, format } = await parseFile(filePath);
+    return {
+      title: common.title,
+      album: common.album,
+      track: common.track?.no ?? undefined,
+      disk: common.disk?.no ?? undefined,
+      duration: format.duration,
+      picture: common.picture?.[0],
+    };
+  } catch (error) {
+    console.warn(`Failed to read tags of ${filePath}: ${error.message}`);
+    return {};
+  }
+}
+
+async function findCover(folder, imageFiles, entries) {
+  const image =
+    imageFiles.find((f) => COVER_NAMES.some((name) => path.basename(f).toLowerCase().startsWith(name))) ??
+    imageFiles[0];
+  if (image) return relativeUrl(image);
+
+  const picture = entries.find((e) => e.tags.picture)?.tags.picture;
+  if (!picture) return DEFAULT_ICON;
+
+  // Readable part for the file browser, hash so "Märchen" and "Mörchen" don't share a file
+  const id = relativeId(folder);
+  const readable = id.replace(/[^a-zA-Z0-9-]+/g, '_').replace(/^_+|_+$/g, '') || 'root';
+  const name = `${readable}-${createHash('sha1').update(id).digest('hex').slice(0, 8)}`;
+  const coverFile = path.join(coversDir, name + (PICTURE_EXTENSIONS[picture.format] ?? '.jpg'));
+  await fs.mkdir(coversDir, { recursive: true });
+  await fs.writeFile(coverFile, picture.data);
+  return relativeUrl(coverFile);
+}
+
+async function buildShow(folder, files) {
+  const audioFiles = files.filter((f) => AUDIO_EXTENSIONS.includes(path.extname(f).toLowerCase()));
+  if (audioFiles.length === 0) return null;
+
+  const entries = [];
+  for (const file of audioFiles) {
+    entries.push({ file, tags: await readTags(file) });
+  }
+
+  // Disc and track number first, then file name (numeric, so "2" sorts before "10")
+  entries.sort((a, b) => {
+    if ((a.tags.disk ?? 0) !== (b.tags.disk ?? 0)) return (a.tags.disk ?? 0) - (b.tags.disk ?? 0);
+    if (a.tags.track !== undefined && b.tags.track !== undefined && a.tags.track !== b.tags.track) {
+      return a.tags.track - b.tags.track;
+    }
+    return compareNames(a.file, b.file);
+  });
+
+  const imageFiles = files.filter((f) => IMAGE_EXTENSIONS.includes(path.extname(f).toLowerCase()));
+  const episodes = entries.map(({ file, tags }) => ({
+    id: relativeId(file),
+    title: tags.title || path.basename(file, path.extname(file)),
+    ...(tags.track !== undefined ? { episodeNumber: String(tags.track) } : {}),
+    url: relativeUrl(file),
+    ...(tags.duration ? { duration: Math.round(tags.duration) } : {}),
+  }));
+
+  return {
+    id: relativeId(folder),
+    title: entries.find((e) => e.tags.album)?.tags.album || path.basename(folder),
+    icon: await findCover(folder, imageFiles, entries),
+    currentEpisodeId: episodes[0].id,
+    episodes,
+  };
+}
+
+const folders = await scanFolders(root);
+const shows = [];
+for (const [folder, files] of folders) {
+  const show = await buildShow(folder, files);
+  if (show) {
+    console.log(`${show.title}: ${show.episodes.length} episodes`);
+    shows.push(show);
+  }
+}
+shows.sort((a, b) => compareNames(a.title, b.title));
+
+await fs.mkdir(outputDir, { recursive: true });
+await fs.writeFile(outputFile, JSON.stringify({ shows }, null, 2) + '\n');
+console.log(`✓ Wrote ${shows.length} shows to ${path.relative(process.cwd(), outputFile) || outputFile}`);
@@ -0,0 +1,168 @@
+// Minimal WebDAV server for trying out the 'webdav' repository locally - no dependencies
+// Usage: node scripts/webdav-dev-server.js <folder> [port] [host]
+//
+// Supports what the player needs: PROPFIND (Depth 0/1), GET/HEAD with Range requests,
+// PUT with If-Match (for the progress file) and CORS. Not meant for production use.
+// There is no authentication and any site may call it, so it only listens on this machine
+// unless another host is given (e.g. 0.0.0.0 to test from a phone on the same network).
+import { createServer } from 'http';
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+
+const root = path.resolve(process.argv[2] ?? '.');
+const port = Number(process.argv[3] ?? 8090);
+const host = process.argv[4] ?? '127.0.0.1';
+
+const CONTENT_TYPES = {
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.m4b': 'audio/mp4',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.flac': 'audio/flac',
+  '.wav': 'audio/wav',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.json': 'application/json',
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, PUT, PROPFIND, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, Depth, If-Match, Range',
+  'Access-Control-Expose-Headers': 'ETag, Content-Range, Accept-Ranges',
+};
+
+function etag(stat) {
+  return `"${stat.size}-${Math.floor(stat.mtimeMs)}"`;
+}
+
+function escapeXml(text) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function propfindEntry(href, stat) {
+  const type = CONTENT_TYPES[path.extname(href).toLowerCase()];
+  return `  <d:response>
+    <d:href>${escapeXml(href)}</d:href>
+    <d:propstat>
+      <d:prop>
+        <d:resourcetype>${stat.isDirectory() ? '<d:collection/>' : ''}</d:resourcetype>
+        ${stat.isFile() ? `<d:getcontentlength>${stat.size}</d:getcontentlength>` : ''}
+        ${type && stat.isFile() ? `<d:getcontenttype>${type}</d:getcontenttype>` : ''}
+        <d:getlastmodified>${stat.mtime.toUTCString()}</d:getlastmodified>
+        <d:getetag>${etag(stat)}</d:getetag>
+      </d:prop>
+      <d:status>HTTP/1.1 200 OK</d:status>
+    </d:propstat>
+  </d:response>`;
+}
+
+async function handlePropfind(req, res, filePath, urlPath, stat) {
+  const entries = [propfindEntry(urlPath, stat)];
+
+  if (stat.isDirectory() && req.headers.depth !== '0') {
+    const base = urlPath.endsWith('/') ? urlPath : `${urlPath}/`;
+    for (const name of await fs.readdir(filePath)) {
+      const childStat = await fs.stat(path.join(filePath, name));
+      const href = base + encodeURIComponent(name) + (childStat.isDirectory() ? '/' : '');
+      entries.push(propfindEntry(href, childStat));
+    }
+  }
+
+  res.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' });
+  res.end(`<?xml version="1.0" encoding="utf-8"?>\n<d:multistatus xmlns:d="DAV:">\n${entries.join('\n')}\n</d:multistatus>\n`);
+}
+
+function handleGet(req, res, filePath, stat) {
+  const headers = {
+    'Content-Type': CONTENT_TYPES[path.extname(filePath).toLowerCase()] ?? 'application/octet-stream',
+    'Accept-Ranges': 'bytes',
+    ETag: etag(stat),
+  };
+
+  // Range requests are needed for seeking in audio files
+  const range = /^bytes=(\d*)-(\d*)$/.exec(req.headers.range ?? '');
+  if (range && (range[1] || range[2])) {
+    const start = range[1] ? Number(range[1]) : Math.max(0, stat.size - Number(range[2]));
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), stat.size - 1) : stat.size - 1;
+    if (start > end) {
+      res.writeHead(416, { 'Content-Range': `bytes */${stat.size}` });
+      res.end();
+      return;
+    }
+    res.writeHead(206, { ...headers, 'Content-Range': `bytes ${start}-${end}/${stat.size}`, 'Content-Length': end - start + 1 });
+    if (req.method === 'HEAD') return res.end();
+    createReadStream(filePath, { start, end }).pipe(res);
+    return;
+  }
+
+  res.writeHead(200, { ...headers, 'Content-Length': stat.size });
+  if (req.method === 'HEAD') return res.end();
+  createReadStream(filePath).pipe(res);
+}
+
+async function handlePut(req, res, filePath, stat) {
+  const ifMatch = req.headers['if-match'];
+  if (ifMatch && (!stat || ifMatch !== etag(stat))) {
+    res.writeHead(412);
+    res.end();
+    return;
+  }
+
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  await fs.writeFile(filePath, Buffer.concat(chunks));
+
+  res.writeHead(stat ? 204 : 201, { ETag: etag(await fs.stat(filePath)) });
+  res.end();
+}
+
+const server = createServer(async (req, res) => {
+  for (const [name, value] of Object.entries(CORS_HEADERS)) {
+    res.setHeader(name, value);
+  }
+
+  try {
+    const urlPath = new URL(req.url, 'http://localhost').pathname;
+    const filePath = path.join(root, decodeURIComponent(urlPath));
+    if (filePath !== root && !filePath.startsWith(root + path.sep)) {
+      res.writeHead(403);
+      res.end();
+      return;
+    }
+
+    const stat = await fs.stat(filePath).catch(() => null);
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { DAV: '1' });
+      res.end();
+    } else if (req.method === 'PUT') {
+      await handlePut(req, res, filePath, stat);
+    } else if (!stat) {
+      res.writeHead(404);
+      res.end();
+    } else if (req.method === 'PROPFIND') {
+      await handlePropfind(req, res, filePath, urlPath, stat);
+    } else if ((req.method === 'GET' || req.method === 'HEAD') && stat.isFile()) {
+      handleGet(req, res, filePath, stat);
+    } else {
+      res.writeHead(405);
+      res.end();
+    }
+  } catch (error) {
+    console.error(error);
+    res.writeHead(500);
+    res.end();
+  }
+
+  console.log(`${req.method} ${req.url} → ${res.statusCode}`);
+});
+
+server.listen(port, host, () => {
+  console.log(`WebDAV server for ${root} on http://${host}:${port}/`);
+  if (host !== '127.0.0.1' && host !== 'localhost' && host !== '::1') {
+    console.warn(`Warning: ${root} is readable and writable by anyone who can reach ${host}:${port}`);
+  }
+});
@@ -3,14 +3,22 @@ import { customElement, property, state } from 'lit/decorators.js';
 import '../xmb/xmb-browser.js';
 import { MediaRepository } from '../catalog/media-repository.js';
 import { PlaybackOrchestrator } from '../xmb/playback-orchestrator.js';
-import { Show } from '../catalog/media-repository.js';
+import { Show, CatalogChange } from '../catalog/media-repository.js';
+import { applyCatalogChange } from '../catalog/catalog-change.js';
+import { RepositoryError, describeError, toRepositoryError } from '../catalog/repository-error.js';
 import type { PlayerConfig } from '../../config.js';
 
+// How long showError() messages stay visible (ms)
+const ERROR_NOTICE_DURATION = 5000;
+
 /**
  * Complete podcast player application component
  * Combines XMB browser, audio player, and session management
  * 
  * @property {MediaRepository} repository - Media repository instance for data access
+ *
+ * Public Methods:
+ * - showError(title: string, error?: unknown): void - Briefly show an error that doesn't block the player
  */
 @customElement('podcast-player')
 export class PodcastPlayer extends LitElement {
@@ -19,10 +27,15 @@ export class PodcastPlayer extends LitElement {
 
   @state() private shows: Show[] = [];
   @state() private isCatalogLoading = false;
+  @state() private catalogLoaded = false;
+  @state() private catalogError: RepositoryError | null = null;
+  @state() private errorNotice: string | null = null;
 
   private orchestrator: PlaybackOrchestrator | null = null;
   private setupComplete = false;
   private loadingPromise: Promise<void> | null = null;
+  private unsubscribeCatalogUpdates: (() => void) | null = null;
+  private errorNoticeTimeout: number | null = null;
 
   static styles = css`
     :host {
@@ -32,6 +45,7 @@ export class PodcastPlayer extends LitElement {
     }
 
     .app-container {
+      position: relative;
       width: 100%;
       height: 100%;
       display: flex;
@@ -43,12 +57,63 @@ export class PodcastPlayer extends LitElement {
       flex: 1;
       min-height: 0;
     }
+
+    .catalog-message {
+      align-items: center;
+      justify-content: center;
+      gap: 12px;
+      color: rgba(255, 255, 255, 0.9);
+      font-family: system-ui, -apple-system, sans-serif;
+      text-align: center;
+    }
+
+    .catalog-message .error {
+      color: #f87171;
+      font-size: 16px;
+      font-weight: 700;
+    }
+
+    .catalog-message .details {
+      max-width: 80vw;
+      font-size: 14px;
+      color: rgba(255, 255, 255, 0.6);
+      word-break: break-word;
+    }
+
+    .error-notice {
+      position: absolute;
+      left: 50%;
+      bottom: 24px;
+      transform: translateX(-50%);
+      max-width: 80vw;
+      padding: 8px 16px;
+      border-radius: 8px;
+      background: rgba(0, 0, 0, 0.8);
+      color: #f87171;
+      font-family: system-ui, -apple-system, sans-serif;
+      font-size: 14px;
+      text-align: center;
+      pointer-events: none;
+    }
+
+    .catalog-message button {
+      padding: 10px 24px;
+      font-size: 16px;
+      font-weight: 700;
+      border: none;
+      border-radius: 8px;
+      background: rgba(37, 99, 235, 0.95);
+      color: white;
+      cursor: pointer;
+    }
   `;
 
   willUpdate(changedProperties: Map<string, any>): void {
     // Start loading shows when repository is first set (but don't await)
     if (changedProperties.has('repository') && this.repository && !this.loadingPromise) {
       this.isCatalogLoading = true;
+      this.unsubscribeCatalogUpdates =
+        this.repository.onCatalogChange?.((change) => this._applyCatalogChange(change)) ?? null;
       this.loadingPromise = this._loadShows();
     }
   }
@@ -59,13 +124,72 @@ export class PodcastPlayer extends LitElement {
       const shows = await this.repository.getCatalog();
       this.shows = shows;
       this.isCatalogLoading = false;
+      this.catalogLoaded = true;
       console.log('[PodcastPlayer] Shows loaded:', this.shows.length);
     } catch (error) {
       console.error('[PodcastPlayer] Failed to load shows:', error);
+      this.catalogError = toRepositoryError(error, 'Loading catalog');
       this.isCatalogLoading = false;
     }
   }
 
+  /**
+   * Briefly show an error that doesn't block the player (e.g. dropped files that
+   * couldn't be added)
+   * @param title - What failed (e.g. "Dropped files could not be added")
+   * @param error - Repository errors add their describeError() text
+   */
+  showError(title: string, error?: unknown): void {
+    this.errorNotice = error instanceof RepositoryError ? `${title}: ${describeError(error)}` : title;
+    if (this.errorNoticeTimeout !== null) {
+      clearTimeout(this.errorNoticeTimeout);
+    }
+    this.errorNoticeTimeout = window.setTimeout(() => {
+      this.errorNoticeTimeout = null;
+      this.errorNotice = null;
+    }, ERROR_NOTICE_DURATION);
+  }
+
+  private _retryLoadShows(): void {
+    this.catalogError = null;
+    this.isCatalogLoading = true;
+    this.loadingPromise = this._loadShows();
+  }
+
+  /**
+   * Apply a catalog change pushed by the repository
+   * Each show keeps its selected episode if that episode still exists; the XMB browser
+   * keeps the current show selected and playback continues uninterrupted.
+   */
+  private _applyCatalogChange(change: CatalogChange): void {
+    // The catalog that is still loading already includes the change
+    if (this.isCatalogLoading) return;
+
+    // Progress doesn't change the catalog's structure - update the episode in place
+    const browser = this.shadowRoot?.querySelector('xmb-browser');
+    if (change.type === 'episode-progress' && browser) {
+      // The loaded episode's session is the source of its progress - ignore the echo of our own syncs
+      const loaded = this.orchestrator?.getCurrentEpisode();
+      if (loaded?.showId === change.showId && loaded.episodeId === change.episodeId) {
+        return;
+      }
+      browser.setEpisodeProgress(change.showId, change.episodeId, change.progress);
+      return;
+    }
+
+    const selectedEpisodes = new Map(this.shows.map((show) => [show.id, show.currentEpisodeId]));
+    const shows = applyCatalogChange(this.shows, change);
+    shows.forEach((show) => {
+      const episodeId = selectedEpisodes.get(show.id);
+      if (episodeId && show.episodes.some((ep) => ep.id === episodeId)) {
+        show.currentEpisodeId = episodeId;
+      }
+    });
+
+    console.log(`[PodcastPlayer] Catalog changed (${change.type}):`, shows.length);
+    this.shows = shows;
+  }
+
   async updated(changedProperties: Map<string, any>): Promise<void> {
     // Setup browser once after shows are loaded and rendered
     if (changedProperties.has('shows') && this.shows.length > 0 && !this.setupComplete) {
@@ -78,6 +202,10 @@ export class PodcastPlayer extends LitElement {
 
   disconnectedCallback(): void {
     super.disconnectedCallback();
+    this.unsubscribeCatalogUpdates?.();
+    if (this.errorNoticeTimeout !== null) {
+      clearTimeout(this.errorNoticeTimeout);
+    }
     if (this.orchestrator) {
       this.orchestrator.destroy();
     }
@@ -169,11 +297,26 @@ export class PodcastPlayer extends LitElement {
   }
 
   render() {
-    // Don't render children until shows are loaded
-    if (this.isCatalogLoading || this.shows.length === 0) {
+    if (this.catalogError) {
+      return html`
+        <div class="app-container catalog-message">
+          <div class="error">${describeError(this.catalogError)}</div>
+          <div class="details">${this.catalogError.message}</div>
+          <button @click=${this._retryLoadShows}>Retry</button>
+        </div>
+      `;
+    }
+
+    // Don't render children until the repository is set and its shows are loaded
+    if (!this.repository || !this.catalogLoaded) {
       return html`<div class="app-container">Loading...</div>`;
     }
 
+    // Shows may still be added later (e.g. local files dropped onto the page)
+    if (this.shows.length === 0) {
+      return html`<div class="app-container catalog-message">No shows found</div>`;
+    }
+
     // Note: isPlaying, isLoading, and playbackProgress are set directly by the
     // PlaybackOrchestrator via _updateXmbState(), not via template bindings.
     // This avoids redundant updates and Lit re-renders during playback.
@@ -184,6 +327,7 @@ export class PodcastPlayer extends LitElement {
           .shows=${this.shows}
           .config=${this.config}
         ></xmb-browser>
+        ${this.errorNotice ? html`<div class="error-notice">${this.errorNotice}</div>` : ''}
       </div>
     `;
   }
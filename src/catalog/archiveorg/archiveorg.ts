@@ -1,8 +1,51 @@
 import { Show, MediaRepository, PlaybackSession } from '../media-repository.js';
+import { LocalProgressStore } from '../local-progress.js';
+import { IndexedDbStore } from '../indexeddb-store.js';
+import { mapWithConcurrency } from '../concurrency.js';
+import {
+  RepositoryError,
+  NotFoundError,
+  UnsupportedFormatError,
+  fetchOrThrow,
+  toRepositoryError,
+} from '../repository-error.js';
+
+export interface ArchiveOrgSearch {
+  /** Advanced search query (e.g. 'collection:librivoxaudio AND subject:"children"') */
+  query: string;
+  /** Maximum number of items to show (default: 20) */
+  maxItems?: number;
+  /** Sort order, e.g. "downloads desc" (default) or "titleSorter asc" */
+  sort?: string;
+}
+
+/**
+ * Which audio file to play when an item offers several formats
+ * - 'highest': Ogg Vorbis if available, otherwise the highest-bitrate MP3 (default)
+ * - 'lowest': the lowest-bitrate file
+ * - number: the highest bitrate (in kbps) not above the target, or the lowest one above it
+ * - 'auto': based on the network connection where the browser reports it, otherwise 'highest'
+ */
+export type ArchiveOrgQuality = 'highest' | 'lowest' | 'auto' | number;
 
 export interface ArchiveOrgConfig {
   /** List of Internet Archive item identifiers (e.g., "alices_adventures_1003") */
-  itemIds: string[];
+  itemIds?: string[];
+  /** Optional search whose results are shown after the listed items */
+  search?: ArchiveOrgSearch;
+  /**
+   * How long fetched metadata and search results are reused without asking archive.org
+   * again, in hours (default: 24). Expired entries are still used when archive.org is unreachable.
+   */
+  cacheTtlHours?: number;
+  /** Audio quality policy (default: 'highest') */
+  quality?: ArchiveOrgQuality;
+}
+
+interface ArchiveOrgSearchResponse {
+  response: {
+    docs: Array<{ identifier: string }>;
+  };
 }
 
 interface ArchiveOrgMetadata {
@@ -38,16 +81,34 @@ interface AudioTrack {
   bitrate?: string;
 }
 
+/**
+ * One of the audio files an episode is available as
+ */
+interface ArchiveOrgFormat {
+  url: string;
+  format: string;
+  bitrate?: number; // in kbps, if known
+}
+
 /**
  * Internal representation of an Archive.org episode with playback metadata
  */
 interface ArchiveOrgEpisode {
   id: string;
   title: string;
-  playbackUrl: string;
+  formats: ArchiveOrgFormat[]; // in 'highest' quality order
   duration: number; // in seconds
 }
 
+/**
+ * Subset of the Network Information API, which only some browsers support
+ */
+interface NetworkConnection {
+  effectiveType?: 'slow-2g' | '2g' | '3g' | '4g';
+  type?: string;
+  saveData?: boolean;
+}
+
 /**
  * Internal representation of an Archive.org show with all metadata
  */
@@ -58,62 +119,174 @@ interface ArchiveOrgShow {
   episodes: ArchiveOrgEpisode[];
 }
 
+/**
+ * Cached value with the time it was fetched
+ */
+interface CacheEntry<T> {
+  value: T;
+  savedAt: number;
+  version?: number;
+}
+
+const MAX_CONCURRENT_REQUESTS = 4;
+// Bump when the cached ArchiveOrgShow structure changes - older entries are ignored
+const CACHE_VERSION = 2;
+// Target bitrate used by 'auto' on slow or metered connections (kbps)
+const CONSTRAINED_BITRATE = 64;
+
 /**
  * Archive.org implementation of MediaRepository
+ * Parsed item metadata and search results are cached in IndexedDB.
  */
 export class ArchiveOrgRepository implements MediaRepository {
   private shows = new Map<string, ArchiveOrgShow>();
+  private progress = new LocalProgressStore('archiveorg', '[Archive.org]');
+  private showCache = new IndexedDbStore<CacheEntry<ArchiveOrgShow>>('archiveorg-shows');
+  private searchCache = new IndexedDbStore<CacheEntry<string[]>>('archiveorg-searches');
 
   constructor(private config: ArchiveOrgConfig) {}
 
   async getCatalog(): Promise<Show[]> {
     const shows: Show[] = [];
+    const errors: RepositoryError[] = [];
+    const itemIds = [...(this.config.itemIds ?? [])];
 
-    for (const itemId of this.config.itemIds) {
+    const search = this.config.search;
+    if (search) {
       try {
-        const internalShow = await this.fetchShow(itemId);
-        if (internalShow) {
-          // Store the internal show for later playback
-          this.shows.set(itemId, internalShow);
-
-          // Pretty print the complete show structure
-          console.log(`[Archive.org] Loaded show: ${itemId} with ${internalShow.episodes.length} episodes`);
-          // Verbose logging - uncomment for debugging:
-          // console.log(JSON.stringify(internalShow, null, 2));
-
-          // Convert to MediaRepository Show format
-          const show: Show = {
-            id: internalShow.id,
-            title: internalShow.title,
-            icon: internalShow.icon,
-            episodes: internalShow.episodes.map((ep) => ({
-              id: ep.id,
-              title: ep.title,
-            })),
-            currentEpisodeId: internalShow.episodes[0]?.id || '',
-          };
-          shows.push(show);
+        const searchResults = await this.withCache(
+          this.searchCache,
+          JSON.stringify(search),
+          () => this.searchItemIds(search)
+        );
+        for (const itemId of searchResults) {
+          if (!itemIds.includes(itemId)) itemIds.push(itemId);
         }
       } catch (error) {
-        console.error(`[Archive.org] Failed to fetch item ${itemId}:`, error);
+        console.error('[Archive.org] Search error:', error);
+        errors.push(toRepositoryError(error, 'Search'));
       }
     }
 
+    const internalShows = await mapWithConcurrency(itemIds, MAX_CONCURRENT_REQUESTS, async (itemId) => {
+      try {
+        return await this.withCache(this.showCache, itemId, () => this.fetchShow(itemId));
+      } catch (error) {
+        console.error(`[Archive.org] Failed to load ${itemId}:`, error);
+        errors.push(toRepositoryError(error, `Loading ${itemId}`));
+        return null;
+      }
+    });
+
+    internalShows.forEach((internalShow, index) => {
+      if (!internalShow) return;
+      const itemId = itemIds[index];
+
+      // Store the internal show for later playback
+      this.shows.set(itemId, internalShow);
+
+      // Pretty print the complete show structure
+      console.log(`[Archive.org] Loaded show: ${itemId} with ${internalShow.episodes.length} episodes`);
+      // Verbose logging - uncomment for debugging:
+      // console.log(JSON.stringify(internalShow, null, 2));
+
+      // Convert to MediaRepository Show format
+      const show: Show = {
+        id: internalShow.id,
+        title: internalShow.title,
+        icon: internalShow.icon,
+        episodes: internalShow.episodes.map((ep) => {
+          const saved = this.progress.load(ep.id);
+          return {
+            id: ep.id,
+            title: ep.title,
+            progress: saved && saved.duration > 0 ? saved.currentTime / saved.duration : undefined,
+            isFinished: saved?.isFinished,
+          };
+        }),
+        currentEpisodeId: internalShow.episodes[0]?.id || '',
+      };
+      shows.push(show);
+    });
+
+    // Items that failed are left out - unless none could be loaded at all
+    if (shows.length === 0 && errors.length > 0) {
+      throw errors[0];
+    }
+
     return shows;
   }
 
-  private async fetchShow(itemId: string): Promise<ArchiveOrgShow | null> {
-    // Fetch metadata from archive.org
-    const metadataUrl = `https://archive.org/metadata/${itemId}`;
-    const response = await fetch(metadataUrl);
-    
-    if (!response.ok) {
-      console.error(`[Archive.org] Failed to fetch metadata for ${itemId}: ${response.status}`);
-      return null;
+  /**
+   * Load a value through an IndexedDB cache
+   * Entries younger than the TTL are used without a request; older ones only if loading fails.
+   * Rethrows the loading error when there is no cache entry to fall back to.
+   */
+  private async withCache<T>(
+    store: IndexedDbStore<CacheEntry<T>>,
+    key: string,
+    load: () => Promise<T>
+  ): Promise<T> {
+    let cached: CacheEntry<T> | undefined;
+    try {
+      cached = await store.get(key);
+    } catch (error) {
+      console.warn('[Archive.org] Failed to read cache:', error);
+    }
+    if (cached?.version !== CACHE_VERSION) {
+      cached = undefined;
     }
 
+    const ttl = (this.config.cacheTtlHours ?? 24) * 60 * 60 * 1000;
+    if (cached && Date.now() - cached.savedAt < ttl) {
+      return cached.value;
+    }
+
+    try {
+      const value = await load();
+      store.set(key, { value, savedAt: Date.now(), version: CACHE_VERSION }).catch((error) => {
+        console.warn('[Archive.org] Failed to write cache:', error);
+      });
+      return value;
+    } catch (error) {
+      if (!cached) throw error;
+
+      console.warn(`[Archive.org] Failed to fetch ${key}, using expired cache entry:`, error);
+      return cached.value;
+    }
+  }
+
+  /**
+   * Resolve a search into item identifiers via the advanced search API
+   */
+  private async searchItemIds(search: ArchiveOrgSearch): Promise<string[]> {
+    const params = new URLSearchParams({
+      q: search.query,
+      'fl[]': 'identifier',
+      'sort[]': search.sort ?? 'downloads desc',
+      rows: String(search.maxItems ?? 20),
+      page: '1',
+      output: 'json',
+    });
+
+    const response = await fetchOrThrow('Search', () => fetch(`https://archive.org/advancedsearch.php?${params}`));
+    const data: ArchiveOrgSearchResponse = await response.json();
+    const itemIds = data.response.docs.map((doc) => doc.identifier);
+    console.log(`[Archive.org] Search "${search.query}" found ${itemIds.length} items`);
+    return itemIds;
+  }
+
+  private async fetchShow(itemId: string): Promise<ArchiveOrgShow> {
+    // Fetch metadata from archive.org
+    const metadataUrl = `https://archive.org/metadata/${itemId}`;
+    const response = await fetchOrThrow(`Metadata request for ${itemId}`, () => fetch(metadataUrl));
     const data: ArchiveOrgMetadata = await response.json();
 
+    // Unknown identifiers are answered with an empty object
+    if (!data.metadata) {
+      throw new NotFoundError(`No archive.org item ${itemId}`);
+    }
+
     // Get show title
     const title = data.metadata?.title || itemId;
 
@@ -123,16 +296,14 @@ export class ArchiveOrgRepository implements MediaRepository {
     // Get curated playlist
     const playlist = data[itemId];
     if (!Array.isArray(playlist)) {
-      console.error(`[Archive.org] No playlist found for ${itemId}`);
-      return null;
+      throw new UnsupportedFormatError(`No playlist found for ${itemId}`);
     }
 
     // Extract episodes from playlist
     const episodes = this.extractEpisodes(playlist, itemId, data);
 
     if (episodes.length === 0) {
-      console.error(`[Archive.org] No episodes found for ${itemId}`);
-      return null;
+      throw new UnsupportedFormatError(`No playable audio files found for ${itemId}`);
     }
 
     const show: ArchiveOrgShow = {
@@ -204,13 +375,14 @@ export class ArchiveOrgRepository implements MediaRepository {
 
     const episodes: ArchiveOrgEpisode[] = [];
 
-    // For each unique title, pick the best format
+    // For each unique title, keep all playable formats - the one to play is chosen at playback time
     for (const [title, tracks] of tracksByTitle) {
-      const bestTrack = this.selectBestFormat(tracks);
-      if (!bestTrack) continue;
+      const sortedTracks = this.sortFormats(tracks);
+      if (sortedTracks.length === 0) continue;
 
+      // The ID always uses the preferred format, so progress survives quality changes
+      const bestTrack = sortedTracks[0];
       const episodeId = `${itemId}:${bestTrack.name}`;
-      const playbackUrl = this.buildPlaybackUrl(itemId, bestTrack.name, metadata);
       
       // Parse duration from length field (format: "MM:SS" or seconds)
       const duration = this.parseDuration(bestTrack.length);
@@ -218,7 +390,11 @@ export class ArchiveOrgRepository implements MediaRepository {
       episodes.push({
         id: episodeId,
         title,
-        playbackUrl,
+        formats: sortedTracks.map((track) => ({
+          url: this.buildPlaybackUrl(itemId, track.name, metadata),
+          format: track.format,
+          bitrate: parseInt(track.bitrate || '', 10) || undefined,
+        })),
         duration,
       });
     }
@@ -272,23 +448,23 @@ export class ArchiveOrgRepository implements MediaRepository {
     return 0;
   }
 
-  private selectBestFormat(tracks: AudioTrack[]): AudioTrack | null {
-    if (tracks.length === 0) return null;
-
+  /**
+   * Playable tracks in 'highest' quality order: Ogg Vorbis, then MP3 by descending bitrate, then the rest
+   */
+  private sortFormats(tracks: AudioTrack[]): AudioTrack[] {
     // Filter to only tracks that have a length field (needed for duration)
     const tracksWithLength = tracks.filter((t) => t.length);
     if (tracksWithLength.length === 0) {
       console.warn('[Archive.org] No tracks with length field found');
-      return null;
+      return [];
     }
 
-    // Prefer Ogg Vorbis (if it has length)
-    const oggTrack = tracksWithLength.find((t) => t.format?.toLowerCase().includes('ogg vorbis'));
-    if (oggTrack) return oggTrack;
+    const isOgg = (t: AudioTrack) => t.format?.toLowerCase().includes('ogg vorbis');
+    const isMp3 = (t: AudioTrack) => t.format?.toLowerCase().includes('mp3');
 
-    // Otherwise, find highest quality MP3
-    const mp3Tracks = tracksWithLength.filter((t) => t.format?.toLowerCase().includes('mp3'));
-    if (mp3Tracks.length === 0) return tracksWithLength[0]; // Fallback to first track with length
+    const oggTracks = tracksWithLength.filter(isOgg);
+    const mp3Tracks = tracksWithLength.filter((t) => !isOgg(t) && isMp3(t));
+    const otherTracks = tracksWithLength.filter((t) => !isOgg(t) && !isMp3(t));
 
     // Sort by bitrate (descending)
     mp3Tracks.sort((a, b) => {
@@ -297,34 +473,74 @@ export class ArchiveOrgRepository implements MediaRepository {
       return bitrateB - bitrateA;
     });
 
-    return mp3Tracks[0];
+    return [...oggTracks, ...mp3Tracks, ...otherTracks];
+  }
+
+  /**
+   * Order an episode's formats by the configured quality policy - the first one is played,
+   * the others are fallbacks if it fails to load
+   */
+  private orderFormats(formats: ArchiveOrgFormat[]): ArchiveOrgFormat[] {
+    const quality = this.resolveQuality();
+    if (quality === 'highest') return formats;
+
+    const target = quality === 'lowest' ? 0 : quality;
+    const known = formats.filter((f) => f.bitrate !== undefined);
+    const atOrBelow = known.filter((f) => f.bitrate! <= target).sort((a, b) => b.bitrate! - a.bitrate!);
+    const above = known.filter((f) => f.bitrate! > target).sort((a, b) => a.bitrate! - b.bitrate!);
+
+    // Formats of unknown bitrate come last, in their default order
+    return [...atOrBelow, ...above, ...formats.filter((f) => f.bitrate === undefined)];
+  }
+
+  /**
+   * Resolve 'auto' to a concrete policy using navigator.connection where available
+   */
+  private resolveQuality(): Exclude<ArchiveOrgQuality, 'auto'> {
+    const quality = this.config.quality ?? 'highest';
+    if (quality !== 'auto') return quality;
+
+    const connection = (navigator as Navigator & { connection?: NetworkConnection }).connection;
+    if (!connection) return 'highest';
+
+    if (connection.saveData || connection.effectiveType === 'slow-2g' || connection.effectiveType === '2g') {
+      return 'lowest';
+    }
+    if (connection.effectiveType === '3g' || connection.type === 'cellular') {
+      return CONSTRAINED_BITRATE;
+    }
+    return 'highest';
   }
 
-  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession | null> {
+  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession> {
     const show = this.shows.get(showId);
     if (!show) {
-      console.error(`[Archive.org] Show not found: ${showId}`);
-      return null;
+      throw new NotFoundError(`Show not found: ${showId}`);
     }
 
     const episode = show.episodes.find((ep) => ep.id === episodeId);
     if (!episode) {
-      console.error(`[Archive.org] Episode not found: ${episodeId}`);
-      return null;
+      throw new NotFoundError(`Episode not found: ${episodeId}`);
     }
 
     // Load saved progress from localStorage
-    const savedProgress = this.loadProgress(episodeId);
+    const savedProgress = this.progress.load(episodeId);
     const startTime = savedProgress?.currentTime || 0;
 
-    console.log(`[Archive.org] Begin playback: ${episodeId} at ${startTime.toFixed(1)}s`);
+    const [format, ...fallbacks] = this.orderFormats(episode.formats);
+
+    console.log(
+      `[Archive.org] Begin playback: ${episodeId} at ${startTime.toFixed(1)}s ` +
+      `(${format.format}${format.bitrate ? `, ${format.bitrate} kbps` : ''})`
+    );
 
     // Use episodeId as the session ID (no server-side session tracking needed)
     const sessionId = episodeId;
 
     return {
       sessionId,
-      playbackUrl: episode.playbackUrl,
+      playbackUrl: format.url,
+      fallbackUrls: fallbacks.map((f) => f.url),
       startTime,
       duration: episode.duration,
     };
@@ -340,7 +556,7 @@ export class ArchiveOrgRepository implements MediaRepository {
     const episodeId = sessionId;
     
     // Save progress to localStorage
-    this.saveProgress(episodeId, currentTime, duration);
+    this.progress.save(episodeId, currentTime, duration);
     
     console.log(`[Archive.org] Progress saved: ${currentTime.toFixed(1)}s / ${duration.toFixed(1)}s`);
   }
@@ -352,34 +568,13 @@ export class ArchiveOrgRepository implements MediaRepository {
     console.log(`[Archive.org] End playback session: ${episodeId}`);
   }
 
-  private saveProgress(episodeId: string, currentTime: number, duration: number): void {
-    try {
-      const key = `archiveorg:progress:${episodeId}`;
-      const data = {
-        currentTime,
-        duration,
-        lastUpdated: Date.now(),
-      };
-      localStorage.setItem(key, JSON.stringify(data));
-    } catch (error) {
-      console.warn('[Archive.org] Failed to save progress to localStorage:', error);
-    }
+  async markFinished(_showId: string, episodeId: string, finished: boolean): Promise<boolean> {
+    console.log(`[Archive.org] Mark ${episodeId} as ${finished ? 'finished' : 'not finished'}`);
+    return this.progress.setFinished(episodeId, finished);
   }
 
-  private loadProgress(episodeId: string): { currentTime: number; duration: number } | null {
-    try {
-      const key = `archiveorg:progress:${episodeId}`;
-      const data = localStorage.getItem(key);
-      if (!data) return null;
-      
-      const parsed = JSON.parse(data);
-      return {
-        currentTime: parsed.currentTime || 0,
-        duration: parsed.duration || 0,
-      };
-    } catch (error) {
-      console.warn('[Archive.org] Failed to load progress from localStorage:', error);
-      return null;
-    }
+  async resetProgress(_showId: string, episodeId: string): Promise<boolean> {
+    console.log(`[Archive.org] Reset progress: ${episodeId}`);
+    return this.progress.remove(episodeId);
   }
 }
@@ -0,0 +1,205 @@
+interface StoredTokens {
+  accessToken: string;
+  refreshToken?: string;
+}
+
+interface ABSLoginResponse {
+  user?: {
+    accessToken?: string;
+    refreshToken?: string;
+    // Servers before v2.26 only return a legacy, long-lived token
+    token?: string;
+  };
+}
+
+/**
+ * Authentication against an Audiobookshelf server
+ *
+ * Either uses a fixed API key, or logs in with username and password and keeps the
+ * returned access and refresh tokens in localStorage. Requests that fail with 401 get
+ * the access token refreshed once and are retried.
+ */
+export class AbsAuth {
+  private tokens: StoredTokens | null;
+  private refreshPromise: Promise<boolean> | null = null;
+
+  /**
+   * @param url - Audiobookshelf server URL
+   * @param apiKey - Optional API key - without it, login() has to succeed before any request
+   */
+  constructor(
+    private url: string,
+    private apiKey?: string
+  ) {
+    this.tokens = apiKey ? { accessToken: apiKey } : this.loadTokens();
+  }
+
+  /**
+   * Whether requests can be authenticated (API key configured or tokens from an earlier login)
+   */
+  isLoggedIn(): boolean {
+    return this.tokens !== null;
+  }
+
+  /**
+   * Whether this instance logs in with credentials (and therefore can log out)
+   */
+  usesLogin(): boolean {
+    return !this.apiKey;
+  }
+
+  get accessToken(): string | null {
+    return this.tokens?.accessToken ?? null;
+  }
+
+  async login(username: string, password: string): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.url}/login`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          // Ask for access + refresh token in the body instead of a refresh cookie
+          'x-return-tokens': 'true',
+        },
+        body: JSON.stringify({ username, password }),
+      });
+
+      if (!response.ok) {
+        console.error(`[ABS Auth] Login failed: ${response.status}`);
+        return false;
+      }
+
+      const data: ABSLoginResponse = await response.json();
+      const accessToken = data.user?.accessToken ?? data.user?.token;
+      if (!accessToken) {
+        console.error('[ABS Auth] Login response contained no token');
+        return false;
+      }
+
+      this.saveTokens({ accessToken, refreshToken: data.user?.refreshToken });
+      console.log(`[ABS Auth] Logged in as ${username}`);
+      return true;
+    } catch (error) {
+      console.error('[ABS Auth] Login error:', error);
+      return false;
+    }
+  }
+
+  async logout(): Promise<void> {
+    if (!this.usesLogin()) return;
+
+    const refreshToken = this.tokens?.refreshToken;
+    this.saveTokens(null);
+
+    try {
+      // Invalidates the refresh token on the server
+      await fetch(`${this.url}/logout`, {
+        method: 'POST',
+        headers: refreshToken ? { 'x-refresh-token': refreshToken } : {},
+      });
+      console.log('[ABS Auth] Logged out');
+    } catch (error) {
+      console.error('[ABS Auth] Logout error:', error);
+    }
+  }
+
+  /**
+   * fetch() with the Authorization header set, refreshing the access token on 401
+   * @param url - Absolute URL on the Audiobookshelf server
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const response = await fetch(url, this.withAuthorization(init));
+    if (response.status !== 401 || !this.tokens?.refreshToken) {
+      return response;
+    }
+
+    if (!(await this.refresh())) {
+      return response;
+    }
+    return fetch(url, this.withAuthorization(init));
+  }
+
+  private withAuthorization(init: RequestInit): RequestInit {
+    return {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${this.accessToken}`,
+      },
+    };
+  }
+
+  /**
+   * Get a new access token - concurrent 401s share a single refresh request
+   */
+  private refresh(): Promise<boolean> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.requestRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async requestRefresh(): Promise<boolean> {
+    const refreshToken = this.tokens?.refreshToken;
+    if (!refreshToken) return false;
+
+    try {
+      const response = await fetch(`${this.url}/auth/refresh`, {
+        method: 'POST',
+        headers: { 'x-refresh-token': refreshToken },
+      });
+
+      if (!response.ok) {
+        // Refresh token expired or revoked - credentials are needed again on next start
+        console.error(`[ABS Auth] Token refresh failed: ${response.status}`);
+        this.saveTokens(null);
+        return false;
+      }
+
+      const data: ABSLoginResponse = await response.json();
+      if (!data.user?.accessToken) {
+        console.error('[ABS Auth] Refresh response contained no token');
+        return false;
+      }
+
+      this.saveTokens({
+        accessToken: data.user.accessToken,
+        refreshToken: data.user.refreshToken ?? refreshToken,
+      });
+      console.log('[ABS Auth] Access token refreshed');
+      return true;
+    } catch (error) {
+      console.error('[ABS Auth] Token refresh error:', error);
+      return false;
+    }
+  }
+
+  private get storageKey(): string {
+    return `abs:auth:${this.url}`;
+  }
+
+  private loadTokens(): StoredTokens | null {
+    try {
+      const data = localStorage.getItem(this.storageKey);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.warn('[ABS Auth] Failed to load tokens from localStorage:', error);
+      return null;
+    }
+  }
+
+  private saveTokens(tokens: StoredTokens | null): void {
+    this.tokens = tokens;
+    try {
+      if (tokens) {
+        localStorage.setItem(this.storageKey, JSON.stringify(tokens));
+      } else {
+        localStorage.removeItem(this.storageKey);
+      }
+    } catch (error) {
+      console.warn('[ABS Auth] Failed to save tokens to localStorage:', error);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Called for every event the server emits, with the event name and its payload
+ */
+export type AbsSocketEventHandler = (event: string, payload: unknown) => void;
+
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Minimal Socket.IO client for Audiobookshelf's real-time events
+ *
+ * Speaks just enough of the Engine.IO v4 / Socket.IO v5 wire protocol over a plain
+ * WebSocket: connect to the default namespace, authenticate with the API token,
+ * answer pings and receive events. Reconnects with exponential backoff until
+ * disconnect() is called.
+ */
+export class AbsSocket {
+  private socket: WebSocket | null = null;
+  private reconnectTimeout: number | null = null;
+  private reconnectDelay = MIN_RECONNECT_DELAY;
+  private active = false;
+
+  /**
+   * @param url - Audiobookshelf server URL (http/https)
+   * @param getToken - Returns the current access token used to authenticate the socket
+   * @param onEvent - Receives every server event
+   */
+  constructor(
+    private url: string,
+    private getToken: () => string | null,
+    private onEvent: AbsSocketEventHandler
+  ) {}
+
+  connect(): void {
+    this.active = true;
+    this.open();
+  }
+
+  disconnect(): void {
+    this.active = false;
+    if (this.reconnectTimeout !== null) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private open(): void {
+    const socketUrl = `${this.url.replace(/^http/, 'ws')}/socket.io/?EIO=4&transport=websocket`;
+    const socket = new WebSocket(socketUrl);
+    this.socket = socket;
+
+    socket.onmessage = (event) => this.handlePacket(socket, String(event.data));
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.scheduleReconnect();
+    };
+    socket.onerror = () => {
+      console.warn('[ABS Socket] Connection error');
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.active) return;
+
+    console.log(`[ABS Socket] Disconnected, reconnecting in ${this.reconnectDelay / 1000}s`);
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.open();
+    }, this.reconnectDelay);
+    this.reconnectDelay = Math.min(this.reconnectDelay * 2, MAX_RECONNECT_DELAY);
+  }
+
+  /**
+   * Handle an Engine.IO packet: "0" open, "2" ping, "4" message (carrying a Socket.IO packet)
+   */
+  private handlePacket(socket: WebSocket, packet: string): void {
+    switch (packet[0]) {
+      case '0':
+        // Engine.IO handshake done - connect to the default Socket.IO namespace
+        socket.send('40');
+        break;
+      case '2':
+        socket.send('3');
+        break;
+      case '4':
+        this.handleMessage(socket, packet.slice(1));
+        break;
+    }
+  }
+
+  /**
+   * Handle a Socket.IO packet: "0" connected, "2" event, "4" connect error
+   */
+  private handleMessage(socket: WebSocket, message: string): void {
+    switch (message[0]) {
+      case '0':
+        console.log('[ABS Socket] Connected');
+        this.reconnectDelay = MIN_RECONNECT_DELAY;
+        socket.send(`42${JSON.stringify(['auth', this.getToken()])}`);
+        break;
+      case '2':
+        try {
+          const [event, payload] = JSON.parse(message.slice(1));
+          this.onEvent(event, payload);
+        } catch (error) {
+          console.warn('[ABS Socket] Failed to handle event:', error);
+        }
+        break;
+      case '4':
+        console.error('[ABS Socket] Connection refused:', message.slice(1));
+        break;
+    }
+  }
+}
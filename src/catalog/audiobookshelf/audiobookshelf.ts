@@ -1,17 +1,116 @@
-import { Show, Episode, MediaRepository, PlaybackSession } from '../media-repository.js';
+import {
+  Show,
+  Episode,
+  EpisodeProgress,
+  MediaRepository,
+  PlaybackSession,
+  CatalogChange,
+  CatalogChangeListener,
+} from '../media-repository.js';
+import { mapWithConcurrency } from '../concurrency.js';
+import { AbsSocket } from './abs-socket.js';
+import { AbsAuth } from './abs-auth.js';
+import {
+  RepositoryError,
+  NotFoundError,
+  ServerError,
+  fetchOrThrow,
+  toRepositoryError,
+} from '../repository-error.js';
 
 export interface AudiobookshelfConfig {
   url: string;
-  apiKey: string;
-  libraryId: string;
+  /**
+   * API key for the server - without one, the player asks for username and password
+   * on first start and keeps the resulting tokens in localStorage
+   */
+  apiKey?: string;
+  /** The library to show */
+  libraryId?: string;
+  /**
+   * Several libraries (or 'all') to show instead of libraryId
+   * Each library's shows are grouped together and labelled with the library name.
+   */
+  libraryIds?: string[] | 'all';
   excludeShowIds?: string[];
   excludeEpisodeIds?: string[];
+  /**
+   * How books are split into episodes (default: 'chapters')
+   * Books without chapters fall back to their audio files.
+   */
+  bookEpisodes?: 'chapters' | 'tracks';
+  /** Library items fetched per page (default: 50) */
+  pageSize?: number;
+  /** Maximum number of item detail requests in flight at once (default: 4) */
+  maxConcurrentRequests?: number;
+  /**
+   * Request the expanded library list, which already contains episodes and chapters,
+   * instead of fetching every item's details separately (default: false)
+   */
+  useExpandedList?: boolean;
+  /** Collections to show as shows, with their books as episodes */
+  collectionIds?: string[];
+  /** The user's playlists to show as shows, with their books and podcast episodes as episodes */
+  playlistIds?: string[];
+  /** Series to show as shows, with their books in series order as episodes */
+  seriesIds?: string[];
+  /**
+   * Whether to show the libraries' items as well (default: true)
+   * Set to false to show only the collections, playlists and series above.
+   */
+  includeLibraryItems?: boolean;
+  /**
+   * Width in pixels to request covers at, so low-powered devices don't decode full-size images
+   * (set by the player from its icon size; full-size covers if not set)
+   */
+  coverSize?: number;
+}
+
+interface ABSLibrary {
+  id: string;
+  name: string;
 }
 
 interface ABSListResponse {
   results: Array<{
     id: string;
+    // Complete item data, only with expanded=1
+    media?: ABSItemDetail['media'];
+    mediaType?: ABSItemDetail['mediaType'];
   }>;
+  total: number;
+}
+
+type ABSListItem = ABSListResponse['results'][number];
+
+interface ABSCollection {
+  id: string;
+  name: string;
+  books: ABSItemDetail[];
+}
+
+interface ABSPlaylist {
+  id: string;
+  name: string;
+  items: Array<{
+    libraryItemId: string;
+    episodeId?: string;
+    libraryItem?: ABSItemDetail;
+    episode?: ABSEpisode;
+  }>;
+}
+
+interface ABSSeries {
+  id: string;
+  name: string;
+}
+
+/**
+ * One entry of a collection, playlist or series: a whole book or a single podcast episode
+ */
+interface VirtualShowEntry {
+  item: ABSItemDetail;
+  episode?: ABSEpisode;
 }
 
 interface ABSEpisode {
@@ -28,102 +127,574 @@ interface ABSEpisode {
   episode?: string;
 }
 
+interface ABSChapter {
+  id: number;
+  start: number;
+  end: number;
+  title: string;
+}
+
+interface ABSBookTrack {
+  index: number;
+  startOffset: number;
+  duration: number;
+  title?: string;
+  metadata?: {
+    filename?: string;
+  };
+}
+
 interface ABSItemDetail {
   id: string;
+  // Included in socket events
+  libraryId?: string;
+  mediaType?: 'book' | 'podcast';
   media: {
     metadata: {
       title: string;
     };
     episodes?: ABSEpisode[];
+    // Books only
+    chapters?: ABSChapter[];
+    tracks?: ABSBookTrack[];
+    duration?: number;
   };
 }
 
+interface ABSMediaProgress {
+  libraryItemId: string;
+  episodeId?: string | null;
+  progress: number;
+  currentTime: number;
+  isFinished: boolean;
+  lastUpdate: number;
+}
+
+interface ABSMe {
+  mediaProgress?: ABSMediaProgress[];
+}
+
+interface ABSProgressEvent {
+  id: string;
+  data: ABSMediaProgress;
+}
+
+interface ABSPlaySession {
+  id?: string;
+  currentTime?: number;
+  duration?: number;
+  audioTracks?: Array<{
+    index: number;
+    startOffset: number;
+    duration: number;
+  }>;
+}
+
+/**
+ * Section of a book's timeline that makes up one episode (in seconds)
+ */
+interface BookWindow {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where an episode's audio lives on the server
+ * Podcast episodes are played by episode ID, book episodes are a window of the whole book.
+ */
+interface PlaybackTarget {
+  itemId: string;
+  episodeId?: string;
+  window?: BookWindow;
+  bookDuration?: number;
+}
+
+/**
+ * Book sessions report progress on the book timeline, the player on the episode timeline
+ */
+interface BookSession {
+  windowStart: number;
+  bookDuration: number;
+}
+
 /**
  * Audiobookshelf implementation of MediaRepository
+ *
+ * Podcast items become shows with their episodes. Book items become shows whose
+ * episodes are the book's chapters (or audio files); playback always runs in a
+ * book-wide session so progress stays in sync with other Audiobookshelf clients.
+ *
+ * While catalog change listeners are registered, a socket connection receives added,
+ * updated and removed items as well as progress made on other devices.
+ *
+ * Several libraries can be shown at once; item IDs are unique across a server's
+ * libraries, so they are used as show IDs unchanged.
+ *
+ * Collections, playlists and series can be added as shows of their own, listed before
+ * the library items. Their episodes play (and sync progress for) the underlying book
+ * or podcast episode.
  */
 export class AudiobookshelfRepository implements MediaRepository {
-  constructor(private config: AudiobookshelfConfig) {}
+  private targets = new Map<string, PlaybackTarget>(); // Key: "showId/episodeId" (show IDs never contain "/")
+  private bookSessions = new Map<string, BookSession>();
+  private mediaProgress = new Map<string, ABSMediaProgress>(); // Key: "itemId" or "itemId/episodeId"
+  private listeners = new Set<CatalogChangeListener>();
+  private socket: AbsSocket | null = null;
+  // Libraries in the catalog, mapped to the group label of their shows
+  private libraries = new Map<string, string | undefined>();
+
+  constructor(
+    private config: AudiobookshelfConfig,
+    private auth = new AbsAuth(config.url, config.apiKey)
+  ) {}
 
   async getCatalog(): Promise<Show[]> {
     try {
-      const listResponse = await fetch(
-        `${this.config.url}/api/libraries/${this.config.libraryId}/items?sort=media.metadata.title`,
-        {
-          headers: { Authorization: `Bearer ${this.config.apiKey}` },
+      const [libraries, mediaProgress] = await Promise.all([
+        this.resolveLibraries(),
+        this.fetchMediaProgress(),
+      ]);
+      this.libraries = libraries;
+      this.mediaProgress = mediaProgress;
+
+      const errors: RepositoryError[] = [];
+      const virtualShows = await this.loadVirtualShows(errors);
+      const libraryShows = this.config.includeLibraryItems === false
+        ? []
+        : await this.loadLibraryShows(errors);
+
+      const shows = [...virtualShows, ...libraryShows];
+      // Broken items are skipped - unless nothing could be loaded at all
+      if (shows.length === 0 && errors.length > 0) {
+        throw errors[0];
+      }
+      return shows;
+    } catch (error) {
+      console.error('[ABS] Failed to fetch catalog:', error);
+      throw toRepositoryError(error, 'Catalog request');
+    }
+  }
+
+  /**
+   * Build a show from every item of the configured libraries
+   * @param errors - Collects the errors of items that were skipped
+   */
+  private async loadLibraryShows(errors: RepositoryError[]): Promise<Show[]> {
+    // Libraries one after the other, so their shows stay grouped in library order
+    const items: Array<{ item: ABSListItem; libraryId: string }> = [];
+    for (const libraryId of this.libraries.keys()) {
+      const libraryItems = await this.fetchLibraryItems(libraryId);
+      items.push(
+        ...libraryItems
+          .filter((item) => !this.config.excludeShowIds?.includes(item.id))
+          .map((item) => ({ item, libraryId }))
+      );
+    }
+
+    const shows = await mapWithConcurrency(
+      items,
+      this.config.maxConcurrentRequests ?? 4,
+      async ({ item, libraryId }) => {
+        try {
+          return await this.loadShow(item, libraryId);
+        } catch (error) {
+          // Skip broken items instead of losing the whole catalog
+          console.error(`[ABS] Failed to load item ${item.id}, skipping:`, error);
+          errors.push(toRepositoryError(error, `Loading item ${item.id}`));
+          return null;
+        }
+      }
+    );
+
+    return shows.filter((show): show is Show => show !== null);
+  }
+
+  /**
+   * Build the configured collections, playlists and series into shows
+   * @param errors - Collects the errors of sources that were skipped
+   */
+  private async loadVirtualShows(errors: RepositoryError[]): Promise<Show[]> {
+    const sources: Array<{ kind: string; id: string; load: () => Promise<Show> }> = [
+      ...(this.config.playlistIds ?? []).map((id) => ({
+        kind: 'playlist', id, load: () => this.loadPlaylistShow(id),
+      })),
+      ...(this.config.collectionIds ?? []).map((id) => ({
+        kind: 'collection', id, load: () => this.loadCollectionShow(id),
+      })),
+      ...(this.config.seriesIds ?? []).map((id) => ({
+        kind: 'series', id, load: () => this.loadSeriesShow(id),
+      })),
+    ];
+
+    const shows = await mapWithConcurrency(
+      sources,
+      this.config.maxConcurrentRequests ?? 4,
+      async ({ kind, id, load }) => {
+        try {
+          return await load();
+        } catch (error) {
+          console.error(`[ABS] Failed to load ${kind} ${id}, skipping:`, error);
+          errors.push(toRepositoryError(error, `Loading ${kind} ${id}`));
+          return null;
         }
+      }
+    );
+
+    return shows.filter((show): show is Show => show !== null && show.episodes.length > 0);
+  }
+
+  private async loadPlaylistShow(playlistId: string): Promise<Show> {
+    const playlist = await this.fetchJson<ABSPlaylist>(`/api/playlists/${playlistId}`);
+    const entries = playlist.items
+      .filter((entry) => entry.libraryItem && (!entry.episodeId || entry.episode))
+      .map((entry): VirtualShowEntry => ({ item: entry.libraryItem!, episode: entry.episode }));
+
+    return this.mapVirtualShow(`playlist:${playlist.id}`, playlist.name, 'Playlist', entries);
+  }
+
+  private async loadCollectionShow(collectionId: string): Promise<Show> {
+    const collection = await this.fetchJson<ABSCollection>(`/api/collections/${collectionId}`);
+    const entries = collection.books.map((item): VirtualShowEntry => ({ item }));
+
+    return this.mapVirtualShow(`collection:${collection.id}`, collection.name, 'Collection', entries);
+  }
+
+  private async loadSeriesShow(seriesId: string): Promise<Show> {
+    const series = await this.fetchJson<ABSSeries>(`/api/series/${seriesId}`);
+
+    // Series have no item list of their own - filter the libraries' items by series
+    const filter = encodeURIComponent(`series.${btoa(seriesId)}`);
+    const entries: VirtualShowEntry[] = [];
+    for (const libraryId of this.libraries.keys()) {
+      const list = await this.fetchJson<ABSListResponse>(
+        `/api/libraries/${libraryId}/items?filter=${filter}&sort=sequence`
       );
-      const listData: ABSListResponse = await listResponse.json();
+      for (const item of list.results) {
+        if (item.media) {
+          entries.push({ item: { id: item.id, libraryId, mediaType: item.mediaType, media: item.media } });
+        }
+      }
+    }
 
-      const shows = await Promise.all(
-        listData.results
-          .filter((item) => !this.config.excludeShowIds?.includes(item.id))
-          .map(async (item) => {
-          const detailResponse = await fetch(
-            `${this.config.url}/api/items/${item.id}`,
-            {
-              headers: { Authorization: `Bearer ${this.config.apiKey}` },
-            }
-          );
-          const detail: ABSItemDetail = await detailResponse.json();
-
-          const coverUrl = `${this.config.url}/api/items/${item.id}/cover`;
-          const episodes = (detail.media.episodes || [])
-            .filter((ep) => !this.config.excludeEpisodeIds?.includes(ep.id))
-            .map((ep): Episode => {
-              // If episode has its own cover, use it; otherwise undefined (will fall back to show cover)
-              const episodeIcon = ep.coverPath 
-                ? `${this.config.url}${ep.coverPath}` 
-                : undefined;
-              
-              return {
-                id: ep.id,
-                title: ep.title,
-                icon: episodeIcon,
-                episodeNumber: ep.episode,
-              };
-            });
-
-          const show: Show = {
-            id: item.id,
-            title: detail.media.metadata.title,
-            icon: coverUrl,
-            currentEpisodeId: episodes.length > 0 ? episodes[0].id : '',
-            episodes,
-          };
-
-          return show;
+    return this.mapVirtualShow(`series:${series.id}`, series.name, 'Series', entries);
+  }
+
+  /**
+   * Build a show whose episodes are whole books or single podcast episodes of other items
+   */
+  private mapVirtualShow(
+    showId: string,
+    title: string,
+    group: string,
+    entries: VirtualShowEntry[]
+  ): Show {
+    const episodes = entries.map(({ item, episode }, index): Episode => {
+      const itemCover = this.coverUrl(item.id);
+
+      if (episode) {
+        const episodeId = `${item.id}/${episode.id}`;
+        this.targets.set(`${showId}/${episodeId}`, { itemId: item.id, episodeId: episode.id });
+        const progress = this.mediaProgress.get(`${item.id}/${episode.id}`);
+        return {
+          id: episodeId,
+          title: episode.title,
+          icon: episode.coverPath ? `${this.config.url}${episode.coverPath}` : itemCover,
+          episodeNumber: `${index + 1}`,
+          ...(progress ? this.episodeProgress(progress) : {}),
+        };
+      }
+
+      const window = { start: 0, end: item.media.duration || 0 };
+      this.targets.set(`${showId}/${item.id}`, {
+        itemId: item.id,
+        window,
+        bookDuration: item.media.duration,
+      });
+      const progress = this.mediaProgress.get(item.id);
+      return {
+        id: item.id,
+        title: item.media.metadata.title,
+        icon: itemCover,
+        episodeNumber: `${index + 1}`,
+        ...(progress ? this.windowProgress(window, progress) : {}),
+      };
+    });
+
+    return {
+      id: showId,
+      title,
+      group,
+      icon: episodes[0]?.icon ?? '🎧',
+      currentEpisodeId: episodes[0]?.id ?? '',
+      episodes,
+    };
+  }
+
+  /**
+   * Cover of an item, resized and re-encoded by the server if a cover size is configured
+   * (episode covers from coverPath are static files the server can't resize)
+   */
+  private coverUrl(itemId: string): string {
+    const url = `${this.config.url}/api/items/${itemId}/cover`;
+    return this.config.coverSize
+      ? `${url}?width=${this.config.coverSize}&format=webp`
+      : url;
+  }
+
+  private async fetchJson<T>(path: string): Promise<T> {
+    const response = await this.request(path, path);
+    return response.json();
+  }
+
+  /**
+   * Authenticated request that throws a RepositoryError on failure
+   * @param what - What is requested, for error messages
+   */
+  private request(path: string, what: string, init?: RequestInit): Promise<Response> {
+    return fetchOrThrow(what, () => this.auth.fetch(`${this.config.url}${path}`, init));
+  }
+
+  /**
+   * Determine the libraries to show and their group labels
+   * A single configured library needs no label; for several, the library names are fetched.
+   */
+  private async resolveLibraries(): Promise<Map<string, string | undefined>> {
+    const { libraryId, libraryIds } = this.config;
+
+    if (!libraryIds) {
+      if (!libraryId) {
+        throw new NotFoundError('Neither libraryId nor libraryIds configured');
+      }
+      return new Map([[libraryId, undefined]]);
+    }
+
+    const response = await this.request('/api/libraries', 'Libraries');
+    const { libraries }: { libraries: ABSLibrary[] } = await response.json();
+
+    if (libraryIds === 'all') {
+      return new Map(libraries.map((library) => [library.id, library.name]));
+    }
+
+    const names = new Map(libraries.map((library) => [library.id, library.name]));
+    return new Map(
+      libraryIds
+        .filter((id) => {
+          if (!names.has(id)) console.warn(`[ABS] Library not found, skipping: ${id}`);
+          return names.has(id);
         })
+        .map((id) => [id, names.get(id)])
+    );
+  }
+
+  /**
+   * Page through a library's items
+   */
+  private async fetchLibraryItems(libraryId: string): Promise<ABSListItem[]> {
+    const pageSize = this.config.pageSize ?? 50;
+    const expanded = this.config.useExpandedList ? '&expanded=1' : '';
+    const items: ABSListItem[] = [];
+
+    for (let page = 0; ; page++) {
+      const listResponse = await this.request(
+        `/api/libraries/${libraryId}/items` +
+          `?sort=media.metadata.title&limit=${pageSize}&page=${page}${expanded}`,
+        `Library items page ${page}`
       );
 
-      return shows;
+      const listData: ABSListResponse = await listResponse.json();
+      items.push(...listData.results);
+
+      if (listData.results.length < pageSize || items.length >= listData.total) {
+        return items;
+      }
+    }
+  }
+
+  /**
+   * Fetch the user's listening progress, keyed by "itemId" or "itemId/episodeId"
+   * Progress is decoration only - without it the catalog still loads.
+   */
+  private async fetchMediaProgress(): Promise<Map<string, ABSMediaProgress>> {
+    const progressByKey = new Map<string, ABSMediaProgress>();
+
+    try {
+      const response = await this.auth.fetch(`${this.config.url}/api/me`);
+      if (!response.ok) {
+        console.warn(`[ABS] Failed to fetch listening progress: ${response.status}`);
+        return progressByKey;
+      }
+
+      const me: ABSMe = await response.json();
+      for (const entry of me.mediaProgress ?? []) {
+        const key = entry.episodeId
+          ? `${entry.libraryItemId}/${entry.episodeId}`
+          : entry.libraryItemId;
+        progressByKey.set(key, entry);
+      }
     } catch (error) {
-      console.error('[ABS] Failed to fetch catalog:', error);
-      return [];
+      console.warn('[ABS] Failed to fetch listening progress:', error);
+    }
+
+    return progressByKey;
+  }
+
+  /**
+   * Build a show from a library item, fetching its details unless the list already contained them
+   */
+  private async loadShow(item: ABSListItem, libraryId: string): Promise<Show> {
+    let detail: ABSItemDetail;
+    if (this.config.useExpandedList && item.media) {
+      detail = { id: item.id, libraryId, mediaType: item.mediaType, media: item.media };
+    } else {
+      const detailResponse = await this.request(`/api/items/${item.id}`, 'Item details');
+      detail = { ...(await detailResponse.json()), libraryId };
+    }
+
+    return this.mapShow(detail);
+  }
+
+  private mapShow(detail: ABSItemDetail): Show {
+    const episodes = this.mapEpisodes(detail)
+      .filter((ep) => !this.config.excludeEpisodeIds?.includes(ep.id));
+
+    return {
+      id: detail.id,
+      title: detail.media.metadata.title,
+      group: detail.libraryId ? this.libraries.get(detail.libraryId) : undefined,
+      icon: this.coverUrl(detail.id),
+      currentEpisodeId: episodes.length > 0 ? episodes[0].id : '',
+      episodes,
+    };
+  }
+
+  /**
+   * Map an item's playable parts to episodes and remember where each one's audio lives
+   */
+  private mapEpisodes(detail: ABSItemDetail): Episode[] {
+    if (detail.mediaType !== 'book' && detail.media.episodes) {
+      return detail.media.episodes.map((ep): Episode => {
+        this.targets.set(`${detail.id}/${ep.id}`, { itemId: detail.id, episodeId: ep.id });
+
+        // If episode has its own cover, use it; otherwise undefined (will fall back to show cover)
+        const episodeIcon = ep.coverPath 
+          ? `${this.config.url}${ep.coverPath}` 
+          : undefined;
+        
+        const progress = this.mediaProgress.get(`${detail.id}/${ep.id}`);
+
+        return {
+          id: ep.id,
+          title: ep.title,
+          icon: episodeIcon,
+          episodeNumber: ep.episode,
+          ...(progress ? this.episodeProgress(progress) : {}),
+        };
+      });
     }
+
+    const bookProgress = this.mediaProgress.get(detail.id);
+    return this.mapBookWindows(detail).map(({ id, title, window }, index): Episode => {
+      this.targets.set(`${detail.id}/${id}`, {
+        itemId: detail.id,
+        window,
+        bookDuration: detail.media.duration,
+      });
+      return {
+        id,
+        title,
+        episodeNumber: `${index + 1}`,
+        ...(bookProgress ? this.windowProgress(window, bookProgress) : {}),
+      };
+    });
   }
 
-  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession | null> {
+  private episodeProgress(progress: ABSMediaProgress): EpisodeProgress {
+    return {
+      progress: progress.progress,
+      isFinished: progress.isFinished,
+      lastPlayedAt: progress.lastUpdate,
+    };
+  }
+
+  /**
+   * Derive an episode's progress from the position in its book
+   * Windows before the current position count as heard, the one containing it as in progress.
+   */
+  private windowProgress(window: BookWindow, bookProgress: ABSMediaProgress): EpisodeProgress {
+    const { currentTime } = bookProgress;
+    const length = window.end - window.start;
+
+    if (bookProgress.isFinished || (length > 0 && currentTime >= window.end)) {
+      return { progress: 1, isFinished: true };
+    }
+    if (currentTime < window.start) {
+      return { progress: 0, isFinished: false };
+    }
+
+    return {
+      progress: length > 0 ? (currentTime - window.start) / length : 0,
+      isFinished: false,
+      lastPlayedAt: bookProgress.lastUpdate,
+    };
+  }
+
+  /**
+   * Split a book into episodes: chapters, audio files, or the whole book as a single episode
+   */
+  private mapBookWindows(detail: ABSItemDetail): Array<{ id: string; title: string; window: BookWindow }> {
+    const chapters = detail.media.chapters ?? [];
+    const tracks = detail.media.tracks ?? [];
+
+    if (this.config.bookEpisodes !== 'tracks' && chapters.length > 0) {
+      return chapters.map((chapter) => ({
+        id: `chapter-${chapter.id}`,
+        title: chapter.title,
+        window: { start: chapter.start, end: chapter.end },
+      }));
+    }
+
+    if (tracks.length > 0) {
+      return tracks.map((track) => ({
+        id: `track-${track.index}`,
+        title: track.title || track.metadata?.filename || `Track ${track.index}`,
+        window: { start: track.startOffset, end: track.startOffset + track.duration },
+      }));
+    }
+
+    return [{
+      id: 'book',
+      title: detail.media.metadata.title,
+      window: { start: 0, end: detail.media.duration || 0 },
+    }];
+  }
+
+  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession> {
+    // Episodes from a catalog loaded elsewhere (e.g. a cache) are podcast episodes
+    const target = this.targets.get(`${showId}/${episodeId}`) ?? { itemId: showId, episodeId };
+
     try {
-      const playResponse = await fetch(
-        `${this.config.url}/api/items/${showId}/play/${episodeId}`,
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${this.config.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            deviceInfo: { clientVersion: '0.0.1' },
-            supportedMimeTypes: ['audio/flac', 'audio/mpeg', 'audio/mp4'],
-          }),
-        }
-      );
-      const playData = await playResponse.json();
+      const playPath = target.episodeId
+        ? `/api/items/${target.itemId}/play/${target.episodeId}`
+        : `/api/items/${target.itemId}/play`;
+      const playResponse = await this.request(playPath, 'Play request', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          deviceInfo: { clientVersion: '0.0.1' },
+          supportedMimeTypes: ['audio/flac', 'audio/mpeg', 'audio/mp4'],
+        }),
+      });
+      const playData: ABSPlaySession = await playResponse.json();
 
       const sessionId = playData.id;
       if (!sessionId) {
-        console.error('[ABS] No session ID returned');
-        return null;
+        throw new ServerError('No session ID returned');
+      }
+
+      if (!target.episodeId) {
+        return this.createBookSession(sessionId, playData, target.window);
       }
 
       const startTime = playData.currentTime || 0;
@@ -141,10 +712,50 @@ export class AudiobookshelfRepository implements MediaRepository {
       };
     } catch (error) {
       console.error('[ABS] Failed to start playback session:', error);
-      return null;
+      throw toRepositoryError(error, 'Play request');
     }
   }
 
+  /**
+   * Build a session for a window of a book from the book-wide session ABS created
+   * Only the audio files overlapping the window are included, positioned relative to its start.
+   */
+  private createBookSession(
+    sessionId: string,
+    playData: ABSPlaySession,
+    window?: BookWindow
+  ): PlaybackSession {
+    const bookDuration = playData.duration || 0;
+    const { start, end } = window ?? { start: 0, end: bookDuration };
+
+    const tracks = (playData.audioTracks ?? [])
+      .filter((track) => track.startOffset < end && track.startOffset + track.duration > start)
+      .map((track) => ({
+        url: `${this.config.url}/public/session/${sessionId}/track/${track.index}`,
+        startOffset: track.startOffset - start,
+        duration: track.duration,
+      }));
+
+    // Resume only if the book's position lies within this episode, otherwise start at its beginning
+    const bookTime = playData.currentTime || 0;
+    const startTime = bookTime >= start && bookTime < end ? bookTime - start : 0;
+
+    this.bookSessions.set(sessionId, { windowStart: start, bookDuration });
+
+    console.log(
+      `[ABS] Begin book playback session: ${start.toFixed(1)}s-${end.toFixed(1)}s ` +
+        `across ${tracks.length} file(s), at ${startTime.toFixed(1)}s`
+    );
+
+    return {
+      sessionId,
+      playbackUrl: tracks[0]?.url ?? '',
+      tracks,
+      startTime,
+      duration: end - start,
+    };
+  }
+
   async updateProgress(
     sessionId: string,
     currentTime: number,
@@ -160,41 +771,42 @@ export class AudiobookshelfRepository implements MediaRepository {
         return;
       }
 
-      console.log(`[ABS] Update playback progress: ${currentTime.toFixed(1)}s`);
+      // Book sessions: report book-global position
+      const bookSession = this.bookSessions.get(sessionId);
+      if (bookSession) {
+        currentTime += bookSession.windowStart;
+        duration = bookSession.bookDuration;
+      }
 
-      const response = await fetch(
-        `${this.config.url}/api/session/${sessionId}/sync`,
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${this.config.apiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            currentTime,
-            duration,
-            timeListened,
-          }),
-        }
-      );
+      console.log(`[ABS] Update playback progress: ${currentTime.toFixed(1)}s`);
 
-      if (!response.ok) {
-        console.error(`[ABS] Update progress failed: ${response.status}`);
-      }
+      await this.request(`/api/session/${sessionId}/sync`, 'Progress sync', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          currentTime,
+          duration,
+          timeListened,
+        }),
+      });
     } catch (error) {
       console.error('[ABS] Update progress error:', error);
+      throw toRepositoryError(error, 'Progress sync');
     }
   }
 
   async endPlayback(sessionId: string): Promise<void> {
+    this.bookSessions.delete(sessionId);
+
     try {
       console.log(`[ABS] End playback session: ${sessionId}`);
-      const response = await fetch(
+      const response = await this.auth.fetch(
         `${this.config.url}/api/session/${sessionId}/close`,
         {
           method: 'POST',
           headers: {
-            Authorization: `Bearer ${this.config.apiKey}`,
             'Content-Type': 'application/json',
           },
         }
@@ -207,4 +819,159 @@ export class AudiobookshelfRepository implements MediaRepository {
       console.error('[ABS] End playback session error:', error);
     }
   }
+
+  async markFinished(showId: string, episodeId: string, finished: boolean): Promise<boolean> {
+    const target = this.targets.get(`${showId}/${episodeId}`) ?? { itemId: showId, episodeId };
+
+    if (target.episodeId) {
+      return this.patchProgress(target, { isFinished: finished });
+    }
+
+    // Book episodes move the book's position to the end (finished) or start (not finished)
+    // of their window; the book itself only counts as finished with its last window
+    const window = target.window ?? { start: 0, end: target.bookDuration ?? 0 };
+    const bookDuration = target.bookDuration || window.end;
+    const currentTime = finished ? window.end : window.start;
+    return this.patchProgress(target, {
+      currentTime,
+      progress: bookDuration > 0 ? currentTime / bookDuration : 0,
+      isFinished: finished && window.end >= bookDuration,
+    });
+  }
+
+  async resetProgress(showId: string, episodeId: string): Promise<boolean> {
+    const target = this.targets.get(`${showId}/${episodeId}`) ?? { itemId: showId, episodeId };
+
+    if (target.episodeId) {
+      return this.patchProgress(target, { currentTime: 0, progress: 0, isFinished: false });
+    }
+
+    // Book episodes restart at the beginning of their window
+    const start = target.window?.start ?? 0;
+    return this.patchProgress(target, {
+      currentTime: start,
+      progress: target.bookDuration ? start / target.bookDuration : 0,
+      isFinished: false,
+    });
+  }
+
+  /**
+   * Overwrite the user's progress for an item or podcast episode
+   * Only used outside of playback sessions - while playing, progress goes through the session sync.
+   */
+  private async patchProgress(
+    target: PlaybackTarget,
+    update: { currentTime?: number; progress?: number; isFinished: boolean }
+  ): Promise<boolean> {
+    const path = target.episodeId
+      ? `/api/me/progress/${target.itemId}/${target.episodeId}`
+      : `/api/me/progress/${target.itemId}`;
+
+    try {
+      console.log(`[ABS] Update progress of ${path}:`, update);
+      const response = await this.auth.fetch(`${this.config.url}${path}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(update),
+      });
+
+      if (!response.ok) {
+        console.error(`[ABS] Update progress failed: ${response.status}`);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('[ABS] Update progress error:', error);
+      return false;
+    }
+  }
+
+  onCatalogChange(listener: CatalogChangeListener): () => void {
+    this.listeners.add(listener);
+
+    if (!this.socket) {
+      this.socket = new AbsSocket(
+        this.config.url,
+        () => this.auth.accessToken,
+        (event, payload) => this.handleSocketEvent(event, payload)
+      );
+      this.socket.connect();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.socket?.disconnect();
+        this.socket = null;
+      }
+    };
+  }
+
+  /**
+   * Translate Audiobookshelf socket events into catalog changes
+   */
+  private handleSocketEvent(event: string, payload: unknown): void {
+    switch (event) {
+      case 'item_added':
+      case 'item_updated': {
+        const item = payload as ABSItemDetail;
+        if (!this.isCatalogItem(item)) return;
+        console.log(`[ABS] Item ${event === 'item_added' ? 'added' : 'updated'}: ${item.id}`);
+        this.emit({ type: 'show-updated', show: this.mapShow(item) });
+        break;
+      }
+      case 'item_removed': {
+        const item = payload as ABSItemDetail;
+        if (!this.isCatalogItem(item)) return;
+        console.log(`[ABS] Item removed: ${item.id}`);
+        this.emit({ type: 'show-removed', showId: item.id });
+        break;
+      }
+      case 'user_item_progress_updated':
+        this.handleProgressUpdate((payload as ABSProgressEvent).data);
+        break;
+    }
+  }
+
+  private isCatalogItem(item: ABSItemDetail): boolean {
+    return this.config.includeLibraryItems !== false &&
+      !!item.libraryId && this.libraries.has(item.libraryId) &&
+      !this.config.excludeShowIds?.includes(item.id);
+  }
+
+  /**
+   * Pass on progress made by any client (including this one) for the affected episodes
+   * A book's progress affects all of its episodes.
+   */
+  private handleProgressUpdate(progress: ABSMediaProgress): void {
+    const itemId = progress.libraryItemId;
+    this.mediaProgress.set(progress.episodeId ? `${itemId}/${progress.episodeId}` : itemId, progress);
+
+    for (const [key, target] of this.targets) {
+      if (target.itemId !== itemId) continue;
+      const separator = key.indexOf('/');
+
+      let episodeProgress: EpisodeProgress;
+      if (target.window) {
+        episodeProgress = this.windowProgress(target.window, progress);
+      } else if (target.episodeId === progress.episodeId) {
+        episodeProgress = this.episodeProgress(progress);
+      } else {
+        continue;
+      }
+
+      this.emit({
+        type: 'episode-progress',
+        showId: key.slice(0, separator),
+        episodeId: key.slice(separator + 1),
+        progress: episodeProgress,
+      });
+    }
+  }
+
+  private emit(change: CatalogChange): void {
+    this.listeners.forEach((listener) => listener(change));
+  }
 }
@@ -0,0 +1,155 @@
+import {
+  Show,
+  MediaRepository,
+  PlaybackSession,
+  CatalogChangeListener,
+} from '../media-repository.js';
+import { IndexedDbStore } from '../indexeddb-store.js';
+
+interface CachedCatalog {
+  /** Identifies the repository configuration the catalog was loaded with */
+  cacheKey: string;
+  shows: Show[];
+  savedAt: number;
+}
+
+const CATALOG_ENTRY = 'catalog';
+
+/**
+ * Decorator that adds a stale-while-revalidate catalog cache to any repository
+ *
+ * The last successfully loaded catalog is persisted in IndexedDB. On startup it is
+ * returned immediately while the wrapped repository is queried in the background;
+ * if the fresh catalog differs, it is pushed to onCatalogChange() listeners as a
+ * 'catalog-replaced' change. When the backend is unreachable, the cached catalog stays
+ * in place. Without a cached catalog, errors of the wrapped repository are passed on.
+ * Changes reported by the wrapped repository are passed through.
+ */
+export class CachingRepository implements MediaRepository {
+  private store = new IndexedDbStore<CachedCatalog>('xmb-catalog-cache');
+  private listeners = new Set<CatalogChangeListener>();
+  private unsubscribeRepository: (() => void) | null = null;
+  private refreshPromise: Promise<void> | null = null;
+
+  /**
+   * @param repository - The repository to wrap
+   * @param cacheKey - Changes whenever the repository configuration changes, so a
+   *                   catalog cached for another backend is never shown
+   */
+  constructor(
+    private repository: MediaRepository,
+    private cacheKey: string
+  ) {}
+
+  async getCatalog(): Promise<Show[]> {
+    const cached = await this.loadCached();
+
+    if (!cached) {
+      const shows = await this.repository.getCatalog();
+      await this.saveCached(shows);
+      return shows;
+    }
+
+    console.log(
+      `[Cache] Using cached catalog from ${new Date(cached.savedAt).toLocaleString()}, refreshing in background`
+    );
+    // Snapshot before handing out the shows - the player mutates currentEpisodeId
+    this.refreshPromise = this.refresh(JSON.stringify(cached.shows));
+    return cached.shows;
+  }
+
+  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession> {
+    // Repositories that resolve playback URLs while loading their catalog
+    // can only start playback once the background refresh has completed
+    await this.refreshPromise;
+    return this.repository.startPlayback(showId, episodeId);
+  }
+
+  updateProgress(
+    sessionId: string,
+    currentTime: number,
+    duration: number,
+    timeListened: number
+  ): Promise<void> {
+    return this.repository.updateProgress(sessionId, currentTime, duration, timeListened);
+  }
+
+  endPlayback(sessionId: string): Promise<void> {
+    return this.repository.endPlayback(sessionId);
+  }
+
+  async markFinished(showId: string, episodeId: string, finished: boolean): Promise<boolean> {
+    if (!this.repository.markFinished) return false;
+    await this.refreshPromise;
+    return this.repository.markFinished(showId, episodeId, finished);
+  }
+
+  async resetProgress(showId: string, episodeId: string): Promise<boolean> {
+    if (!this.repository.resetProgress) return false;
+    await this.refreshPromise;
+    return this.repository.resetProgress(showId, episodeId);
+  }
+
+  onCatalogChange(listener: CatalogChangeListener): () => void {
+    this.listeners.add(listener);
+
+    // Only keep the wrapped repository's change channel (e.g. a socket) open while someone listens
+    if (!this.unsubscribeRepository) {
+      this.unsubscribeRepository = this.repository.onCatalogChange?.(
+        (change) => this.listeners.forEach((l) => l(change))
+      ) ?? null;
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.unsubscribeRepository?.();
+        this.unsubscribeRepository = null;
+      }
+    };
+  }
+
+  private async refresh(cachedSnapshot: string): Promise<void> {
+    try {
+      const shows = await this.repository.getCatalog();
+      await this.saveCached(shows);
+
+      if (JSON.stringify(shows) === cachedSnapshot) {
+        console.log('[Cache] Cached catalog is up to date');
+        return;
+      }
+
+      console.log('[Cache] Catalog changed, notifying listeners');
+      this.listeners.forEach((listener) => listener({ type: 'catalog-replaced', shows }));
+    } catch (error) {
+      console.error('[Cache] Background refresh failed, keeping cached catalog:', error);
+    }
+  }
+
+  private async loadCached(): Promise<CachedCatalog | null> {
+    try {
+      const cached = await this.store.get(CATALOG_ENTRY);
+      if (!cached || cached.cacheKey !== this.cacheKey || cached.shows.length === 0) {
+        return null;
+      }
+      return cached;
+    } catch (error) {
+      console.warn('[Cache] Failed to read cached catalog:', error);
+      return null;
+    }
+  }
+
+  private async saveCached(shows: Show[]): Promise<void> {
+    if (shows.length === 0) return;
+
+    try {
+      await this.store.set(CATALOG_ENTRY, {
+        cacheKey: this.cacheKey,
+        shows,
+        savedAt: Date.now(),
+      });
+    } catch (error) {
+      console.warn('[Cache] Failed to save catalog:', error);
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { Show, CatalogChange } from './media-repository.js';
+
+/**
+ * Apply a catalog change to a list of shows
+ * Returns a new array; shows that didn't change are kept as-is. Added shows are appended.
+ */
+export function applyCatalogChange(shows: Show[], change: CatalogChange): Show[] {
+  switch (change.type) {
+    case 'catalog-replaced':
+      return change.shows;
+
+    case 'show-updated': {
+      const index = shows.findIndex((show) => show.id === change.show.id);
+      if (index === -1) {
+        return [...shows, change.show];
+      }
+      return shows.map((show, i) => (i === index ? change.show : show));
+    }
+
+    case 'show-removed':
+      return shows.filter((show) => show.id !== change.showId);
+
+    case 'episode-progress':
+      return shows.map((show) =>
+        show.id !== change.showId
+          ? show
+          : {
+            ...show,
+            episodes: show.episodes.map((episode) =>
+              episode.id === change.episodeId ? { ...episode, ...change.progress } : episode
+            ),
+          }
+      );
+  }
+}
@@ -0,0 +1,219 @@
+import {
+  Show,
+  MediaRepository,
+  PlaybackSession,
+  CatalogChange,
+  CatalogChangeListener,
+} from '../media-repository.js';
+import { applyCatalogChange } from '../catalog-change.js';
+import { RepositoryError, NotFoundError, toRepositoryError } from '../repository-error.js';
+
+/**
+ * Combines several repositories into a single catalog
+ *
+ * Show, episode and session IDs are prefixed with the index of the owning repository
+ * ("<index>:<original id>") so they stay unique across backends, and every call is routed
+ * back to the repository that produced the ID. Shows appear in the order of the
+ * repositories, each backend keeping its own sort order.
+ */
+export class CompositeRepository implements MediaRepository {
+  // Latest catalog of each repository, so a change from one can be merged with the others
+  private catalogs: Show[][] = [];
+  private listeners = new Set<CatalogChangeListener>();
+  private unsubscribeRepositories: Array<() => void> = [];
+
+  constructor(private repositories: MediaRepository[]) {}
+
+  async getCatalog(): Promise<Show[]> {
+    const errors: RepositoryError[] = [];
+    const catalogs = await Promise.all(
+      this.repositories.map(async (repository, index) => {
+        try {
+          const shows = await repository.getCatalog();
+          return shows.map((show) => this.namespaceShow(show, index));
+        } catch (error) {
+          // One unreachable backend shouldn't empty the whole bar
+          console.error(`[Composite] Failed to fetch catalog from repository ${index}:`, error);
+          errors.push(toRepositoryError(error, `Catalog of repository ${index}`));
+          return [];
+        }
+      })
+    );
+
+    this.catalogs = catalogs;
+    const shows = catalogs.flat();
+    if (shows.length === 0 && errors.length > 0) {
+      throw errors[0];
+    }
+    return shows;
+  }
+
+  onCatalogChange(listener: CatalogChangeListener): () => void {
+    this.listeners.add(listener);
+
+    if (this.unsubscribeRepositories.length === 0) {
+      this.unsubscribeRepositories = this.repositories.flatMap((repository, index) => {
+        const unsubscribe = repository.onCatalogChange?.(
+          (change) => this.handleRepositoryChange(change, index)
+        );
+        return unsubscribe ? [unsubscribe] : [];
+      });
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.unsubscribeRepositories.forEach((unsubscribe) => unsubscribe());
+        this.unsubscribeRepositories = [];
+      }
+    };
+  }
+
+  /**
+   * Namespace a change from one repository and pass it on
+   * Replaced catalogs and added shows are passed on as a replaced combined catalog,
+   * so the shows stay grouped by repository.
+   */
+  private handleRepositoryChange(change: CatalogChange, index: number): void {
+    const namespaced = this.namespaceChange(change, index);
+    const catalog = this.catalogs[index] ?? [];
+    const isAddition = namespaced.type === 'show-updated' &&
+      !catalog.some((show) => show.id === namespaced.show.id);
+
+    this.catalogs[index] = applyCatalogChange(catalog, namespaced);
+
+    const combined: CatalogChange = namespaced.type === 'catalog-replaced' || isAddition
+      ? { type: 'catalog-replaced', shows: this.catalogs.flat() }
+      : namespaced;
+    this.listeners.forEach((listener) => listener(combined));
+  }
+
+  private namespaceChange(change: CatalogChange, index: number): CatalogChange {
+    switch (change.type) {
+      case 'catalog-replaced':
+        return { ...change, shows: change.shows.map((show) => this.namespaceShow(show, index)) };
+      case 'show-updated':
+        return { ...change, show: this.namespaceShow(change.show, index) };
+      case 'show-removed':
+        return { ...change, showId: this.namespaceId(change.showId, index) };
+      case 'episode-progress':
+        return {
+          ...change,
+          showId: this.namespaceId(change.showId, index),
+          episodeId: this.namespaceId(change.episodeId, index),
+        };
+    }
+  }
+
+  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession> {
+    const target = this.resolveEpisode(showId, episodeId);
+    if (!target) {
+      throw new NotFoundError(`Unknown show or episode: ${showId} / ${episodeId}`);
+    }
+
+    const session = await target.repository.startPlayback(target.showId, target.episodeId);
+    return {
+      ...session,
+      sessionId: this.namespaceId(session.sessionId, target.index),
+    };
+  }
+
+  async updateProgress(
+    sessionId: string,
+    currentTime: number,
+    duration: number,
+    timeListened: number
+  ): Promise<void> {
+    const session = this.parseId(sessionId);
+    if (!session) {
+      console.warn('[Composite] Session not found:', sessionId);
+      return;
+    }
+
+    await this.repositories[session.index].updateProgress(
+      session.id,
+      currentTime,
+      duration,
+      timeListened
+    );
+  }
+
+  async endPlayback(sessionId: string): Promise<void> {
+    const session = this.parseId(sessionId);
+    if (!session) {
+      console.warn('[Composite] Session not found:', sessionId);
+      return;
+    }
+
+    await this.repositories[session.index].endPlayback(session.id);
+  }
+
+  async markFinished(showId: string, episodeId: string, finished: boolean): Promise<boolean> {
+    const target = this.resolveEpisode(showId, episodeId);
+    if (!target?.repository.markFinished) {
+      console.warn('[Composite] Cannot mark episode as finished:', episodeId);
+      return false;
+    }
+    return target.repository.markFinished(target.showId, target.episodeId, finished);
+  }
+
+  async resetProgress(showId: string, episodeId: string): Promise<boolean> {
+    const target = this.resolveEpisode(showId, episodeId);
+    if (!target?.repository.resetProgress) {
+      console.warn('[Composite] Cannot reset progress:', episodeId);
+      return false;
+    }
+    return target.repository.resetProgress(target.showId, target.episodeId);
+  }
+
+  /**
+   * Find the repository owning a show/episode pair and the IDs it knows them by
+   */
+  private resolveEpisode(
+    showId: string,
+    episodeId: string
+  ): { index: number; repository: MediaRepository; showId: string; episodeId: string } | null {
+    const show = this.parseId(showId);
+    const episode = this.parseId(episodeId);
+    if (!show || !episode || show.index !== episode.index) {
+      console.error('[Composite] Unknown show or episode:', showId, episodeId);
+      return null;
+    }
+    return {
+      index: show.index,
+      repository: this.repositories[show.index],
+      showId: show.id,
+      episodeId: episode.id,
+    };
+  }
+
+  private namespaceShow(show: Show, index: number): Show {
+    return {
+      ...show,
+      id: this.namespaceId(show.id, index),
+      currentEpisodeId: show.currentEpisodeId ? this.namespaceId(show.currentEpisodeId, index) : '',
+      episodes: show.episodes.map((episode) => ({
+        ...episode,
+        id: this.namespaceId(episode.id, index),
+      })),
+    };
+  }
+
+  private namespaceId(id: string, index: number): string {
+    return `${index}:${id}`;
+  }
+
+  /**
+   * Split a namespaced ID into repository index and original ID
+   * Only the first colon is a separator - original IDs may contain colons themselves.
+   */
+  private parseId(namespacedId: string): { index: number; id: string } | null {
+    const separator = namespacedId.indexOf(':');
+    if (separator === -1) return null;
+
+    const index = parseInt(namespacedId.slice(0, separator), 10);
+    if (isNaN(index) || !this.repositories[index]) return null;
+
+    return { index, id: namespacedId.slice(separator + 1) };
+  }
+}
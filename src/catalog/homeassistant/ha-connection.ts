@@ -0,0 +1,142 @@
+import {
+  RepositoryError,
+  AuthError,
+  NetworkError,
+  NotFoundError,
+  ServerError,
+} from '../repository-error.js';
+
+interface HaResultMessage {
+  id: number;
+  type: 'result';
+  success: boolean;
+  result?: unknown;
+  error?: { code: string; message: string };
+}
+
+interface PendingCommand {
+  resolve: (result: unknown) => void;
+  reject: (error: RepositoryError) => void;
+}
+
+/**
+ * Minimal client for the Home Assistant WebSocket API
+ *
+ * Authenticates with a long-lived access token and sends commands, resolving each with
+ * its result. Connects on the first command and again on the next command after the
+ * connection dropped. Failures reject with a RepositoryError.
+ */
+export class HaConnection {
+  private socket: WebSocket | null = null;
+  private connectPromise: Promise<WebSocket> | null = null;
+  private pending = new Map<number, PendingCommand>();
+  private nextId = 1;
+
+  /**
+   * @param url - Home Assistant base URL (http/https)
+   * @param accessToken - Long-lived access token (Profile → Security)
+   */
+  constructor(
+    private url: string,
+    private accessToken: string
+  ) {}
+
+  /**
+   * Send a command and wait for its result
+   * @param message - Command without ID, e.g. { type: 'media_source/browse_media' }
+   */
+  async command<T>(message: Record<string, unknown>): Promise<T> {
+    const socket = await this.connect();
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+      socket.send(JSON.stringify({ ...message, id }));
+    });
+  }
+
+  close(): void {
+    this.socket?.close();
+  }
+
+  private connect(): Promise<WebSocket> {
+    if (!this.connectPromise) {
+      this.connectPromise = this.open();
+      // Allow a later command to retry if connecting failed
+      this.connectPromise.catch(() => {
+        this.connectPromise = null;
+      });
+    }
+    return this.connectPromise;
+  }
+
+  private open(): Promise<WebSocket> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(`${this.url.replace(/^http/, 'ws').replace(/\/$/, '')}/api/websocket`);
+
+      socket.onmessage = (event) => {
+        const message = JSON.parse(String(event.data));
+        switch (message.type) {
+          case 'auth_required':
+            socket.send(JSON.stringify({ type: 'auth', access_token: this.accessToken }));
+            break;
+          case 'auth_ok':
+            console.log(`[Home Assistant] Connected (version ${message.ha_version})`);
+            this.socket = socket;
+            resolve(socket);
+            break;
+          case 'auth_invalid':
+            console.error('[Home Assistant] Authentication failed:', message.message);
+            reject(new AuthError(`Home Assistant authentication failed: ${message.message}`));
+            socket.close();
+            break;
+          case 'result':
+            this.handleResult(message);
+            break;
+        }
+      };
+
+      socket.onerror = () => {
+        console.warn('[Home Assistant] Connection error');
+      };
+
+      socket.onclose = () => {
+        reject(new NetworkError('Home Assistant connection closed'));
+        if (this.socket === socket) {
+          this.socket = null;
+          this.connectPromise = null;
+        }
+        // Commands in flight won't get an answer anymore
+        this.pending.forEach(({ reject: rejectCommand }) => rejectCommand(new NetworkError('Home Assistant connection closed')));
+        this.pending.clear();
+      };
+    });
+  }
+
+  private handleResult(message: HaResultMessage): void {
+    const command = this.pending.get(message.id);
+    if (!command) return;
+    this.pending.delete(message.id);
+
+    if (message.success) {
+      command.resolve(message.result);
+    } else {
+      command.reject(resultError(message.error));
+    }
+  }
+}
+
+/**
+ * RepositoryError for a failed command, by Home Assistant's error code
+ */
+function resultError(error: HaResultMessage['error']): RepositoryError {
+  const message = `${error?.code}: ${error?.message}`;
+  switch (error?.code) {
+    case 'unauthorized':
+      return new AuthError(message);
+    case 'not_found':
+      return new NotFoundError(message);
+    default:
+      return new ServerError(message);
+  }
+}
@@ -0,0 +1,208 @@
+import { Show, MediaRepository, PlaybackSession } from '../media-repository.js';
+import { LocalProgressStore } from '../local-progress.js';
+import { mapWithConcurrency } from '../concurrency.js';
+import { RepositoryError, NotFoundError, toRepositoryError } from '../repository-error.js';
+import { HaConnection } from './ha-connection.js';
+
+export interface HomeAssistantConfig {
+  /** Home Assistant base URL (e.g. "http://homeassistant.local:8123") */
+  url: string;
+  /** Long-lived access token (Profile → Security → Long-lived access tokens) */
+  accessToken: string;
+  /**
+   * Media source directory whose subdirectories are shown
+   * (e.g. "media-source://media_source/local/Audiobooks"; default: the media source root)
+   */
+  rootContentId?: string;
+}
+
+/**
+ * Node of the media source tree (BrowseMedia in Home Assistant)
+ */
+interface HaBrowseMedia {
+  title: string;
+  media_class: string;
+  media_content_id: string;
+  media_content_type: string;
+  can_play: boolean;
+  can_expand: boolean;
+  thumbnail: string | null;
+  children?: HaBrowseMedia[];
+}
+
+interface HaResolvedMedia {
+  url: string;
+  mime_type: string;
+}
+
+/**
+ * Internal representation of a directory of playable items
+ */
+interface HaShow {
+  id: string;
+  title: string;
+  icon: string;
+  episodes: Array<{ id: string; title: string; icon?: string }>;
+}
+
+const DEFAULT_ICON = '📁';
+const MAX_CONCURRENT_REQUESTS = 4;
+// Signed media URLs must stay valid while seeking - Home Assistant defaults to 30 seconds
+const SIGNED_URL_EXPIRY = 24 * 60 * 60;
+
+/**
+ * Home Assistant media source implementation of MediaRepository
+ *
+ * Browses the media_source tree over the WebSocket API: every directory below the root
+ * becomes a show, with its playable items as episodes. Playback URLs are resolved (and
+ * signed) when an episode starts. Resume positions are kept in localStorage, since
+ * media sources have no notion of progress.
+ */
+export class HomeAssistantRepository implements MediaRepository {
+  private shows = new Map<string, HaShow>();
+  private progress = new LocalProgressStore('homeassistant', '[Home Assistant]');
+  private connection: HaConnection;
+
+  constructor(private config: HomeAssistantConfig) {
+    this.connection = new HaConnection(config.url, config.accessToken);
+  }
+
+  async getCatalog(): Promise<Show[]> {
+    const root = await this.browse(this.config.rootContentId);
+
+    const directories = (root.children ?? []).filter((child) => child.can_expand);
+    const errors: RepositoryError[] = [];
+    const internalShows = await mapWithConcurrency(directories, MAX_CONCURRENT_REQUESTS, async (directory) => {
+      try {
+        return await this.loadShow(directory);
+      } catch (error) {
+        console.error(`[Home Assistant] Failed to browse ${directory.title}:`, error);
+        errors.push(toRepositoryError(error, `Browsing ${directory.title}`));
+        return null;
+      }
+    });
+
+    const shows: Show[] = [];
+    for (const internalShow of internalShows) {
+      if (!internalShow) continue;
+
+      this.shows.set(internalShow.id, internalShow);
+      console.log(`[Home Assistant] Loaded ${internalShow.title} with ${internalShow.episodes.length} episodes`);
+
+      shows.push({
+        id: internalShow.id,
+        title: internalShow.title,
+        icon: internalShow.icon,
+        episodes: internalShow.episodes.map((ep) => {
+          const saved = this.progress.load(ep.id);
+          return {
+            id: ep.id,
+            title: ep.title,
+            icon: ep.icon,
+            progress: saved && saved.duration > 0 ? saved.currentTime / saved.duration : undefined,
+            isFinished: saved?.isFinished,
+          };
+        }),
+        currentEpisodeId: internalShow.episodes[0]?.id || '',
+      });
+    }
+
+    // Directories that failed are left out - unless none could be loaded at all
+    if (shows.length === 0 && errors.length > 0) {
+      throw errors[0];
+    }
+    return shows;
+  }
+
+  private async loadShow(directory: HaBrowseMedia): Promise<HaShow | null> {
+    const contents = await this.browse(directory.media_content_id);
+    const playable = (contents.children ?? []).filter((child) => child.can_play);
+    if (playable.length === 0) return null;
+
+    return {
+      id: directory.media_content_id,
+      title: directory.title,
+      icon: this.thumbnailUrl(directory.thumbnail) ?? this.thumbnailUrl(contents.thumbnail) ?? DEFAULT_ICON,
+      episodes: playable.map((item) => ({
+        id: item.media_content_id,
+        // Local media is listed by file name
+        title: item.title.replace(/\.(mp3|m4a|m4b|aac|ogg|opus|flac|wav)$/i, ''),
+        icon: this.thumbnailUrl(item.thumbnail),
+      })),
+    };
+  }
+
+  /**
+   * Browse a media source directory (the root when no ID is given)
+   */
+  private browse(mediaContentId?: string): Promise<HaBrowseMedia> {
+    return this.connection.command<HaBrowseMedia>({
+      type: 'media_source/browse_media',
+      ...(mediaContentId ? { media_content_id: mediaContentId } : {}),
+    });
+  }
+
+  /**
+   * Thumbnails are often relative to the Home Assistant URL
+   */
+  private thumbnailUrl(thumbnail: string | null): string | undefined {
+    return thumbnail ? new URL(thumbnail, this.config.url).href : undefined;
+  }
+
+  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession> {
+    const show = this.shows.get(showId);
+    if (!show?.episodes.some((ep) => ep.id === episodeId)) {
+      throw new NotFoundError(`Episode not found: ${showId} / ${episodeId}`);
+    }
+
+    let resolved: HaResolvedMedia;
+    try {
+      resolved = await this.connection.command<HaResolvedMedia>({
+        type: 'media_source/resolve_media',
+        media_content_id: episodeId,
+        expires: SIGNED_URL_EXPIRY,
+      });
+    } catch (error) {
+      console.error(`[Home Assistant] Failed to resolve ${episodeId}:`, error);
+      throw toRepositoryError(error, `Resolving ${episodeId}`);
+    }
+
+    const savedProgress = this.progress.load(episodeId);
+    const startTime = savedProgress?.currentTime || 0;
+
+    console.log(`[Home Assistant] Begin playback: ${episodeId} at ${startTime.toFixed(1)}s`);
+
+    return {
+      // Use episodeId as the session ID (no server-side session tracking needed)
+      sessionId: episodeId,
+      playbackUrl: new URL(resolved.url, this.config.url).href,
+      startTime,
+      // Unknown until the file is loaded - the player takes it from the audio element
+      duration: savedProgress?.duration || 0,
+    };
+  }
+
+  async updateProgress(
+    sessionId: string,
+    currentTime: number,
+    duration: number,
+    _timeListened: number
+  ): Promise<void> {
+    // sessionId is the episodeId
+    this.progress.save(sessionId, currentTime, duration);
+  }
+
+  async endPlayback(sessionId: string): Promise<void> {
+    console.log(`[Home Assistant] End playback session: ${sessionId}`);
+  }
+
+  async markFinished(_showId: string, episodeId: string, finished: boolean): Promise<boolean> {
+    console.log(`[Home Assistant] Mark ${episodeId} as ${finished ? 'finished' : 'not finished'}`);
+    return this.progress.setFinished(episodeId, finished);
+  }
+
+  async resetProgress(_showId: string, episodeId: string): Promise<boolean> {
+    console.log(`[Home Assistant] Reset progress: ${episodeId}`);
+    return this.progress.remove(episodeId);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Minimal promise-based key/value store on top of IndexedDB
+ *
+ * Each store lives in its own database with a single object store, so consumers
+ * never have to coordinate schema versions with each other.
+ */
+export class IndexedDbStore<T> {
+  private static readonly OBJECT_STORE = 'entries';
+
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private dbName: string) {}
+
+  async get(key: string): Promise<T | undefined> {
+    const db = await this.open();
+    return this.promisify<T | undefined>(
+      db.transaction(IndexedDbStore.OBJECT_STORE, 'readonly')
+        .objectStore(IndexedDbStore.OBJECT_STORE)
+        .get(key)
+    );
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    const db = await this.open();
+    await this.promisify(
+      db.transaction(IndexedDbStore.OBJECT_STORE, 'readwrite')
+        .objectStore(IndexedDbStore.OBJECT_STORE)
+        .put(value, key)
+    );
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IndexedDbStore.OBJECT_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+
+      // Allow a later call to retry if opening failed (e.g. private browsing)
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private promisify<R>(request: IDBRequest): Promise<R> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
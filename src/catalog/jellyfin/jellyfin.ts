@@ -0,0 +1,277 @@
+import { Show, Episode, MediaRepository, PlaybackSession } from '../media-repository.js';
+import { mapWithConcurrency } from '../concurrency.js';
+import { RepositoryError, fetchOrThrow, toRepositoryError } from '../repository-error.js';
+
+export interface JellyfinConfig {
+  url: string;
+  apiKey: string;
+  userId: string;
+  /** ID of the audiobook or music library; each folder/album in it becomes a show */
+  libraryId: string;
+  excludeShowIds?: string[];
+  excludeEpisodeIds?: string[];
+}
+
+interface JellyfinItem {
+  Id: string;
+  Name: string;
+  Type: string;
+  IsFolder?: boolean;
+  IndexNumber?: number;
+  ParentIndexNumber?: number;
+  /** Duration in ticks (10,000,000 ticks per second) */
+  RunTimeTicks?: number;
+  ImageTags?: {
+    Primary?: string;
+  };
+  UserData?: {
+    PlaybackPositionTicks?: number;
+    Played?: boolean;
+  };
+}
+
+interface JellyfinItemsResponse {
+  Items: JellyfinItem[];
+  TotalRecordCount: number;
+}
+
+/**
+ * Active Jellyfin playback session, needed to report progress against the right item
+ */
+interface JellyfinSession {
+  itemId: string;
+  positionTicks: number;
+}
+
+const TICKS_PER_SECOND = 10_000_000;
+const MAX_CONCURRENT_REQUESTS = 4;
+
+/**
+ * Jellyfin implementation of MediaRepository
+ *
+ * Maps each folder (audiobook) or album in the configured library to a show and its
+ * audio files to episodes. Resume positions come from Jellyfin's per-user data and
+ * progress is reported through the /Sessions/Playing endpoints.
+ */
+export class JellyfinRepository implements MediaRepository {
+  private sessions = new Map<string, JellyfinSession>();
+  private deviceId: string;
+
+  constructor(private config: JellyfinConfig) {
+    this.deviceId = this.loadDeviceId();
+  }
+
+  async getCatalog(): Promise<Show[]> {
+    try {
+      const libraryData = await this.request<JellyfinItemsResponse>(
+        `/Items?userId=${this.config.userId}&parentId=${this.config.libraryId}` +
+          '&sortBy=SortName&sortOrder=Ascending'
+      );
+
+      const folders = libraryData.Items.filter(
+        (item) => item.IsFolder && !this.config.excludeShowIds?.includes(item.Id)
+      );
+
+      const errors: RepositoryError[] = [];
+      const shows = await mapWithConcurrency(folders, MAX_CONCURRENT_REQUESTS, async (item) => {
+        try {
+          return await this.loadShow(item);
+        } catch (error) {
+          console.error(`[Jellyfin] Failed to fetch items of ${item.Name}:`, error);
+          errors.push(toRepositoryError(error, `Items of ${item.Id}`));
+          return null;
+        }
+      });
+
+      // Folders without any audio (e.g. artwork-only directories) are not playable shows
+      const loaded = shows.filter((show): show is Show => !!show && show.episodes.length > 0);
+
+      // Shows that failed are left out - unless none could be loaded at all
+      if (loaded.length === 0 && errors.length > 0) {
+        throw errors[0];
+      }
+      return loaded;
+    } catch (error) {
+      console.error('[Jellyfin] Failed to fetch catalog:', error);
+      throw toRepositoryError(error, 'Catalog request');
+    }
+  }
+
+  private async loadShow(item: JellyfinItem): Promise<Show> {
+    const episodeData = await this.request<JellyfinItemsResponse>(
+      `/Items?userId=${this.config.userId}&parentId=${item.Id}&recursive=true` +
+        '&includeItemTypes=Audio,AudioBook' +
+        '&sortBy=Album,ParentIndexNumber,IndexNumber,SortName&sortOrder=Ascending'
+    );
+
+    const episodes = episodeData.Items
+      .filter((ep) => !this.config.excludeEpisodeIds?.includes(ep.Id))
+      .map((ep): Episode => ({
+        id: ep.Id,
+        title: ep.Name,
+        icon: ep.ImageTags?.Primary ? this.imageUrl(ep.Id) : undefined,
+        episodeNumber: ep.IndexNumber?.toString(),
+      }));
+
+    return {
+      id: item.Id,
+      title: item.Name,
+      icon: item.ImageTags?.Primary ? this.imageUrl(item.Id) : '🎧',
+      currentEpisodeId: episodes.length > 0 ? episodes[0].id : '',
+      episodes,
+    };
+  }
+
+  async startPlayback(_showId: string, episodeId: string): Promise<PlaybackSession> {
+    try {
+      // Fetch the item fresh so the resume position reflects progress from other clients
+      const item = await this.request<JellyfinItem>(
+        `/Users/${this.config.userId}/Items/${episodeId}`
+      );
+
+      const startTicks = item.UserData?.Played ? 0 : item.UserData?.PlaybackPositionTicks || 0;
+      const sessionId = `xmb-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+      await this.request('/Sessions/Playing', {
+        ItemId: episodeId,
+        PlaySessionId: sessionId,
+        PositionTicks: startTicks,
+        CanSeek: true,
+        PlayMethod: 'DirectStream',
+      });
+
+      this.sessions.set(sessionId, { itemId: episodeId, positionTicks: startTicks });
+
+      const startTime = startTicks / TICKS_PER_SECOND;
+      const duration = (item.RunTimeTicks || 0) / TICKS_PER_SECOND;
+
+      console.log(
+        `[Jellyfin] Begin playback session: ${episodeId} at ${startTime.toFixed(1)}s / ${duration.toFixed(1)}s`
+      );
+
+      const params = new URLSearchParams({
+        UserId: this.config.userId,
+        DeviceId: this.deviceId,
+        PlaySessionId: sessionId,
+        api_key: this.config.apiKey,
+        Container: 'mp3,aac,m4a,m4b,flac,ogg,opus',
+        TranscodingContainer: 'mp3',
+        TranscodingProtocol: 'http',
+        AudioCodec: 'mp3',
+      });
+
+      return {
+        sessionId,
+        playbackUrl: `${this.config.url}/Audio/${episodeId}/universal?${params}`,
+        startTime,
+        duration,
+      };
+    } catch (error) {
+      console.error('[Jellyfin] Failed to start playback session:', error);
+      throw toRepositoryError(error, 'Play request');
+    }
+  }
+
+  async updateProgress(
+    sessionId: string,
+    currentTime: number,
+    duration: number,
+    _timeListened: number
+  ): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      console.warn('[Jellyfin] Session not found:', sessionId);
+      return;
+    }
+
+    if (!duration || duration <= 0 || isNaN(duration) || isNaN(currentTime) || currentTime < 0) {
+      return;
+    }
+
+    try {
+      console.log(`[Jellyfin] Update playback progress: ${currentTime.toFixed(1)}s`);
+
+      session.positionTicks = Math.round(currentTime * TICKS_PER_SECOND);
+      await this.request('/Sessions/Playing/Progress', {
+        ItemId: session.itemId,
+        PlaySessionId: sessionId,
+        PositionTicks: session.positionTicks,
+        IsPaused: false,
+        EventName: 'TimeUpdate',
+      });
+    } catch (error) {
+      console.error('[Jellyfin] Update progress error:', error);
+      throw toRepositoryError(error, 'Progress report');
+    }
+  }
+
+  async endPlayback(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    try {
+      console.log(`[Jellyfin] End playback session: ${sessionId}`);
+      await this.request('/Sessions/Playing/Stopped', {
+        ItemId: session.itemId,
+        PlaySessionId: sessionId,
+        PositionTicks: session.positionTicks,
+      });
+    } catch (error) {
+      console.error('[Jellyfin] End playback session error:', error);
+    } finally {
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  /**
+   * Perform an authenticated API request, throwing a RepositoryError on failure
+   * GET when no body is given, otherwise POST with a JSON body
+   */
+  private async request<T = void>(path: string, body?: object): Promise<T> {
+    const response = await fetchOrThrow(path, () =>
+      fetch(`${this.config.url}${path}`, {
+        method: body ? 'POST' : 'GET',
+        headers: {
+          Authorization: this.authorizationHeader(),
+          ...(body ? { 'Content-Type': 'application/json' } : {}),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      })
+    );
+
+    // Reporting endpoints answer without a body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  private authorizationHeader(): string {
+    return (
+      `MediaBrowser Client="XMB Audiobook Player", Device="Browser", ` +
+      `DeviceId="${this.deviceId}", Version="1.0.0", Token="${this.config.apiKey}"`
+    );
+  }
+
+  private imageUrl(itemId: string): string {
+    return `${this.config.url}/Items/${itemId}/Images/Primary`;
+  }
+
+  /**
+   * Jellyfin tracks sessions per device, so keep a stable device ID across page loads
+   */
+  private loadDeviceId(): string {
+    const key = 'jellyfin:deviceId';
+    try {
+      const existing = localStorage.getItem(key);
+      if (existing) return existing;
+
+      const deviceId = `xmb-${Math.random().toString(36).substr(2, 12)}`;
+      localStorage.setItem(key, deviceId);
+      return deviceId;
+    } catch (error) {
+      console.warn('[Jellyfin] Failed to persist device ID:', error);
+      return 'xmb-player';
+    }
+  }
+}
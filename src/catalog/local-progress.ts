@@ -0,0 +1,81 @@
+/**
+ * Saved playback position for a single episode
+ */
+export interface LocalProgress {
+  currentTime: number;
+  duration: number;
+  isFinished: boolean;
+}
+
+/**
+ * Persists resume positions in localStorage for backends without server-side progress
+ *
+ * Entries are stored as JSON under `<keyPrefix>:progress:<episodeId>`.
+ */
+export class LocalProgressStore {
+  /**
+   * @param keyPrefix - Namespace for the localStorage keys (e.g. "archiveorg")
+   * @param logPrefix - Prefix for console messages (e.g. "[Archive.org]")
+   */
+  constructor(
+    private keyPrefix: string,
+    private logPrefix: string
+  ) {}
+
+  save(episodeId: string, currentTime: number, duration: number, isFinished = false): boolean {
+    try {
+      const data = {
+        currentTime,
+        duration,
+        isFinished,
+        lastUpdated: Date.now(),
+      };
+      localStorage.setItem(this.key(episodeId), JSON.stringify(data));
+      return true;
+    } catch (error) {
+      console.warn(`${this.logPrefix} Failed to save progress to localStorage:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Mark an episode as finished (resumes from the beginning) or not finished (keeps its position)
+   */
+  setFinished(episodeId: string, finished: boolean): boolean {
+    const saved = this.load(episodeId);
+    return finished
+      ? this.save(episodeId, 0, saved?.duration ?? 0, true)
+      : this.save(episodeId, saved?.currentTime ?? 0, saved?.duration ?? 0, false);
+  }
+
+  remove(episodeId: string): boolean {
+    try {
+      localStorage.removeItem(this.key(episodeId));
+      return true;
+    } catch (error) {
+      console.warn(`${this.logPrefix} Failed to remove progress from localStorage:`, error);
+      return false;
+    }
+  }
+
+  load(episodeId: string): LocalProgress | null {
+    try {
+      const data = localStorage.getItem(this.key(episodeId));
+      if (!data) return null;
+
+      const parsed = JSON.parse(data);
+      return {
+        currentTime: parsed.currentTime || 0,
+        duration: parsed.duration || 0,
+        isFinished: parsed.isFinished === true,
+      };
+    } catch (error) {
+      console.warn(`${this.logPrefix} Failed to load progress from localStorage:`, error);
+      return null;
+    }
+  }
+
+  private key(episodeId: string): string {
+    return `${this.keyPrefix}:progress:${episodeId}`;
+  }
+}
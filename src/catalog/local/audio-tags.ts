@@ -0,0 +1,34 @@
+/**
+ * Metadata read from an audio file's tags
+ */
+export interface AudioTags {
+  title?: string;
+  album?: string;
+  artist?: string;
+  track?: number;
+  disk?: number;
+  cover?: Blob;
+}
+
+/**
+ * Read the tags of an audio file (ID3, MP4, Vorbis comments, APE, ...)
+ *
+ * Uses music-metadata, like scripts/generate-manifest.js, so local files and generated
+ * manifests get the same titles and track order. The library is only loaded when the
+ * first file is read. Throws for files whose format it doesn't recognize.
+ */
+export async function readAudioTags(file: File): Promise<AudioTags> {
+  const { parseBlob } = await import('music-metadata');
+  // Only tags are needed - the audio element reports the duration
+  const { common } = await parseBlob(file, { duration: false, skipPostHeaders: true });
+
+  const picture = common.picture?.[0];
+  return {
+    title: common.title || undefined,
+    album: common.album || undefined,
+    artist: common.artist || undefined,
+    track: common.track.no ?? undefined,
+    disk: common.disk.no ?? undefined,
+    cover: picture ? new Blob([picture.data.slice()], { type: picture.format }) : undefined,
+  };
+}
@@ -0,0 +1,147 @@
+import { IndexedDbStore } from '../indexeddb-store.js';
+
+/**
+ * A file selected by the user, with its path relative to the chosen folder
+ * (e.g. "Audiobooks/Alice/01 Down the Rabbit Hole.mp3")
+ */
+export interface LocalFile {
+  file: File;
+  path: string;
+}
+
+// Parts of the File System Access API that TypeScript's DOM typings don't include yet
+declare global {
+  interface Window {
+    showDirectoryPicker?(options?: { id?: string; mode?: 'read' | 'readwrite' }): Promise<FileSystemDirectoryHandle>;
+  }
+  interface FileSystemHandle {
+    queryPermission?(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
+    requestPermission?(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
+  }
+  interface FileSystemDirectoryHandle {
+    values(): AsyncIterableIterator<FileSystemHandle>;
+  }
+}
+
+const SAVED_DIRECTORY_KEY = 'directory';
+
+// The last opened folder, so it can be reopened after a reload without picking it again
+const directoryStore = new IndexedDbStore<FileSystemDirectoryHandle>('local-files');
+
+/**
+ * Whether the browser can open folders through the File System Access API
+ * (otherwise an <input webkitdirectory> is used)
+ */
+export function supportsDirectoryPicker(): boolean {
+  return typeof window.showDirectoryPicker === 'function';
+}
+
+/**
+ * Let the user pick a folder and read all files in it
+ * @returns The files, or null if the user cancelled
+ */
+export async function pickDirectory(): Promise<LocalFile[] | null> {
+  let handle: FileSystemDirectoryHandle;
+  try {
+    handle = await window.showDirectoryPicker!({ id: 'xmb-local-files', mode: 'read' });
+  } catch (error) {
+    // AbortError when the user closes the picker
+    console.log('[Local Files] Folder picker closed:', error);
+    return null;
+  }
+
+  directoryStore.set(SAVED_DIRECTORY_KEY, handle).catch((error) => {
+    console.warn('[Local Files] Failed to remember folder:', error);
+  });
+  return readDirectory(handle, handle.name);
+}
+
+/**
+ * The folder opened last time, if the browser kept it
+ */
+export async function loadSavedDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  try {
+    return (await directoryStore.get(SAVED_DIRECTORY_KEY)) ?? null;
+  } catch (error) {
+    console.warn('[Local Files] Failed to load remembered folder:', error);
+    return null;
+  }
+}
+
+/**
+ * Read a remembered folder again - must be called from a user gesture, since the
+ * browser asks for permission again after a reload
+ * @returns The files, or null if permission was denied or the folder is gone
+ */
+export async function reopenDirectory(handle: FileSystemDirectoryHandle): Promise<LocalFile[] | null> {
+  try {
+    if ((await handle.requestPermission?.({ mode: 'read' })) === 'denied') {
+      console.warn(`[Local Files] Permission denied for ${handle.name}`);
+      return null;
+    }
+    return await readDirectory(handle, handle.name);
+  } catch (error) {
+    console.error(`[Local Files] Failed to reopen ${handle.name}:`, error);
+    return null;
+  }
+}
+
+async function readDirectory(handle: FileSystemDirectoryHandle, path: string): Promise<LocalFile[]> {
+  const files: LocalFile[] = [];
+  for await (const entry of handle.values()) {
+    const entryPath = `${path}/${entry.name}`;
+    if (entry.kind === 'file') {
+      files.push({ file: await (entry as FileSystemFileHandle).getFile(), path: entryPath });
+    } else {
+      files.push(...(await readDirectory(entry as FileSystemDirectoryHandle, entryPath)));
+    }
+  }
+  return files;
+}
+
+/**
+ * Files from an <input type="file">, keeping folder structure for webkitdirectory inputs
+ */
+export function filesFromFileList(fileList: FileList): LocalFile[] {
+  return Array.from(fileList, (file) => ({ file, path: file.webkitRelativePath || file.name }));
+}
+
+/**
+ * Files and folders dropped onto the page
+ * Must be called synchronously from the drop handler - the DataTransfer is emptied afterwards.
+ */
+export function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<LocalFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    return Promise.resolve(filesFromFileList(dataTransfer.files));
+  }
+
+  return Promise.all(entries.map(readEntry)).then((results) => results.flat());
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<LocalFile[]> {
+  // fullPath starts with "/"
+  const path = entry.fullPath.replace(/^\//, '');
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [{ file, path }];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns the contents in batches until an empty batch
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+
+  const results = await Promise.all(children.map(readEntry));
+  return results.flat();
+}
@@ -0,0 +1,263 @@
+import {
+  Show,
+  MediaRepository,
+  PlaybackSession,
+  CatalogChange,
+  CatalogChangeListener,
+} from '../media-repository.js';
+import { LocalProgressStore } from '../local-progress.js';
+import { mapWithConcurrency } from '../concurrency.js';
+import { NotFoundError } from '../repository-error.js';
+import { readAudioTags, AudioTags } from './audio-tags.js';
+import { LocalFile } from './local-file-sources.js';
+
+export interface LocalFilesConfig {
+  /** Read titles, track numbers and cover art from ID3/MP4 tags (default: true) */
+  readTags?: boolean;
+}
+
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'm4b', 'aac', 'ogg', 'oga', 'opus', 'flac', 'wav', 'webm'];
+const IMAGE_EXTENSIONS = ['jpg', 'jpeg', 'png', 'webp'];
+// Preferred names for a folder's cover image
+const COVER_NAMES = ['cover', 'folder', 'front', 'albumart'];
+const DEFAULT_ICON = '🎵';
+const MAX_CONCURRENT_TAG_READS = 4;
+
+/**
+ * Internal representation of a local audio file
+ */
+interface LocalEpisode {
+  id: string;
+  title: string;
+  file: File;
+}
+
+/**
+ * Internal representation of a folder of audio files
+ */
+interface LocalShow {
+  id: string;
+  title: string;
+  icon: string;
+  episodes: LocalEpisode[];
+}
+
+/**
+ * Local files implementation of MediaRepository
+ *
+ * Every folder containing audio files becomes a show, with the files as episodes.
+ * Titles, order and cover art come from the files' tags where present, otherwise from
+ * file names and image files in the folder. Resume positions are kept in localStorage,
+ * keyed by file path, so they survive picking the same folder again.
+ */
+export class LocalFilesRepository implements MediaRepository {
+  private shows = new Map<string, LocalShow>();
+  private progress = new LocalProgressStore('local', '[Local Files]');
+  private listeners = new Set<CatalogChangeListener>();
+  // Object URLs of the files being played, per session
+  private playbackUrls = new Map<string, string>();
+
+  /**
+   * @param files - Initially selected files, e.g. from the file picker
+   */
+  constructor(
+    private files: LocalFile[],
+    private config: LocalFilesConfig = {}
+  ) {}
+
+  async getCatalog(): Promise<Show[]> {
+    const shows = await this.buildShows(this.files);
+    shows.forEach((show) => this.setShow(show));
+    return [...this.shows.values()].map((show) => this.toShow(show));
+  }
+
+  /**
+   * Add files after the catalog was loaded (e.g. dropped onto the page)
+   * Folders that are already shown are replaced.
+   */
+  async addFiles(files: LocalFile[]): Promise<void> {
+    const shows = await this.buildShows(files);
+    for (const show of shows) {
+      this.setShow(show);
+      this.emit({ type: 'show-updated', show: this.toShow(show) });
+    }
+  }
+
+  private setShow(show: LocalShow): void {
+    // Release the cover of a folder that is loaded again
+    const previousIcon = this.shows.get(show.id)?.icon;
+    if (previousIcon?.startsWith('blob:')) {
+      URL.revokeObjectURL(previousIcon);
+    }
+    this.shows.set(show.id, show);
+  }
+
+  onCatalogChange(listener: CatalogChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(change: CatalogChange): void {
+    this.listeners.forEach((listener) => listener(change));
+  }
+
+  private async buildShows(files: LocalFile[]): Promise<LocalShow[]> {
+    // Group by folder
+    const folders = new Map<string, LocalFile[]>();
+    for (const file of files) {
+      const folder = file.path.includes('/') ? file.path.slice(0, file.path.lastIndexOf('/')) : '';
+      const existing = folders.get(folder) || [];
+      existing.push(file);
+      folders.set(folder, existing);
+    }
+
+    const shows: LocalShow[] = [];
+    for (const [folder, folderFiles] of folders) {
+      const audioFiles = folderFiles.filter((f) => AUDIO_EXTENSIONS.includes(extension(f.path)));
+      if (audioFiles.length === 0) continue;
+
+      const tags = this.config.readTags === false
+        ? audioFiles.map((): AudioTags => ({}))
+        : await mapWithConcurrency(audioFiles, MAX_CONCURRENT_TAG_READS, async (f) => {
+          try {
+            return await readAudioTags(f.file);
+          } catch (error) {
+            console.warn(`[Local Files] Failed to read tags of ${f.path}:`, error);
+            return {};
+          }
+        });
+
+      shows.push(this.buildShow(folder, folderFiles, audioFiles, tags));
+    }
+
+    shows.sort((a, b) => a.title.localeCompare(b.title, undefined, { numeric: true }));
+    console.log(`[Local Files] Loaded ${shows.length} folders from ${files.length} files`);
+    return shows;
+  }
+
+  private buildShow(folder: string, folderFiles: LocalFile[], audioFiles: LocalFile[], tags: AudioTags[]): LocalShow {
+    const entries = audioFiles.map((file, i) => ({ file, tags: tags[i] }));
+
+    // Disc and track number first, then file name (numeric, so "2" sorts before "10")
+    entries.sort((a, b) => {
+      if ((a.tags.disk ?? 0) !== (b.tags.disk ?? 0)) return (a.tags.disk ?? 0) - (b.tags.disk ?? 0);
+      if (a.tags.track !== undefined && b.tags.track !== undefined && a.tags.track !== b.tags.track) {
+        return a.tags.track - b.tags.track;
+      }
+      return a.file.path.localeCompare(b.file.path, undefined, { numeric: true });
+    });
+
+    const folderName = folder.slice(folder.lastIndexOf('/') + 1);
+    const album = entries.find((e) => e.tags.album)?.tags.album;
+
+    return {
+      id: folder || '.',
+      title: album || folderName || 'Local files',
+      icon: this.findCover(folderFiles, entries.map((e) => e.tags)),
+      episodes: entries.map(({ file, tags }) => ({
+        id: file.path,
+        title: tags.title || fileName(file.path).replace(/\.[^.]+$/, ''),
+        file: file.file,
+      })),
+    };
+  }
+
+  /**
+   * Embedded cover art of the first file that has one, otherwise an image in the folder
+   */
+  private findCover(folderFiles: LocalFile[], tags: AudioTags[]): string {
+    const embedded = tags.find((t) => t.cover)?.cover;
+    if (embedded) {
+      return URL.createObjectURL(embedded);
+    }
+
+    const images = folderFiles.filter((f) => IMAGE_EXTENSIONS.includes(extension(f.path)));
+    const image =
+      images.find((f) => COVER_NAMES.some((name) => fileName(f.path).toLowerCase().startsWith(name))) ??
+      images[0];
+    return image ? URL.createObjectURL(image.file) : DEFAULT_ICON;
+  }
+
+  private toShow(show: LocalShow): Show {
+    return {
+      id: show.id,
+      title: show.title,
+      icon: show.icon,
+      episodes: show.episodes.map((ep) => {
+        const saved = this.progress.load(ep.id);
+        return {
+          id: ep.id,
+          title: ep.title,
+          progress: saved && saved.duration > 0 ? saved.currentTime / saved.duration : undefined,
+          isFinished: saved?.isFinished,
+        };
+      }),
+      currentEpisodeId: show.episodes[0]?.id || '',
+    };
+  }
+
+  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession> {
+    const episode = this.shows.get(showId)?.episodes.find((ep) => ep.id === episodeId);
+    if (!episode) {
+      throw new NotFoundError(`Episode not found: ${showId} / ${episodeId}`);
+    }
+
+    const savedProgress = this.progress.load(episodeId);
+    const startTime = savedProgress?.currentTime || 0;
+
+    console.log(`[Local Files] Begin playback: ${episodeId} at ${startTime.toFixed(1)}s`);
+
+    // Use episodeId as the session ID (no server-side session tracking needed)
+    const sessionId = episodeId;
+    const playbackUrl = URL.createObjectURL(episode.file);
+    this.playbackUrls.set(sessionId, playbackUrl);
+
+    return {
+      sessionId,
+      playbackUrl,
+      startTime,
+      // Unknown until the file is loaded - the player takes it from the audio element
+      duration: savedProgress?.duration || 0,
+    };
+  }
+
+  async updateProgress(
+    sessionId: string,
+    currentTime: number,
+    duration: number,
+    _timeListened: number
+  ): Promise<void> {
+    // sessionId is the episodeId
+    this.progress.save(sessionId, currentTime, duration);
+  }
+
+  async endPlayback(sessionId: string): Promise<void> {
+    const playbackUrl = this.playbackUrls.get(sessionId);
+    if (playbackUrl) {
+      URL.revokeObjectURL(playbackUrl);
+      this.playbackUrls.delete(sessionId);
+    }
+    console.log(`[Local Files] End playback session: ${sessionId}`);
+  }
+
+  async markFinished(_showId: string, episodeId: string, finished: boolean): Promise<boolean> {
+    console.log(`[Local Files] Mark ${episodeId} as ${finished ? 'finished' : 'not finished'}`);
+    return this.progress.setFinished(episodeId, finished);
+  }
+
+  async resetProgress(_showId: string, episodeId: string): Promise<boolean> {
+    console.log(`[Local Files] Reset progress: ${episodeId}`);
+    return this.progress.remove(episodeId);
+  }
+}
+
+function fileName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function extension(path: string): string {
+  const name = fileName(path);
+  return name.includes('.') ? name.slice(name.lastIndexOf('.') + 1).toLowerCase() : '';
+}
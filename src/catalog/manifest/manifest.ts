@@ -0,0 +1,287 @@
+import { Show, MediaRepository, PlaybackSession } from '../media-repository.js';
+import { LocalProgressStore } from '../local-progress.js';
+import { RepositoryError, NotFoundError, ServerError, fetchOrThrow, toRepositoryError } from '../repository-error.js';
+
+export interface ManifestConfig {
+  /** URL of the JSON catalog, relative to the page (default: "catalog.json" unless playlists are given) */
+  manifestUrl?: string;
+  /** URLs of extended M3U playlists, relative to the page - each playlist becomes a show */
+  playlistUrls?: string[];
+}
+
+/**
+ * Shape of catalog.json - sample-data.json plus audio URLs and durations
+ * Relative URLs (audio and image icons) are resolved against the manifest's URL.
+ */
+interface ManifestFile {
+  shows: Array<{
+    id: string;
+    title: string;
+    /** Image URL or emoji */
+    icon?: string;
+    currentEpisodeId?: string;
+    episodes: Array<{
+      id: string;
+      title: string;
+      icon?: string;
+      episodeNumber?: string;
+      url: string;
+      /** Duration in seconds */
+      duration?: number;
+    }>;
+  }>;
+}
+
+/**
+ * Internal representation of an episode with playback metadata
+ */
+interface ManifestEpisode {
+  id: string;
+  title: string;
+  icon?: string;
+  episodeNumber?: string;
+  playbackUrl: string;
+  duration: number; // in seconds, 0 if unknown
+}
+
+/**
+ * Internal representation of a show with all metadata
+ */
+interface ManifestShow {
+  id: string;
+  title: string;
+  icon: string;
+  currentEpisodeId?: string;
+  episodes: ManifestEpisode[];
+}
+
+const DEFAULT_MANIFEST_URL = 'catalog.json';
+const DEFAULT_ICON = '🎧';
+
+/**
+ * Static manifest implementation of MediaRepository
+ *
+ * Reads the catalog from a catalog.json and/or extended M3U playlists served next to the
+ * app, so audio files on any static web server can be played without a media server.
+ * Resume positions are kept in localStorage.
+ */
+export class ManifestRepository implements MediaRepository {
+  private shows = new Map<string, ManifestShow>();
+  private progress = new LocalProgressStore('manifest', '[Manifest]');
+
+  constructor(private config: ManifestConfig = {}) {}
+
+  async getCatalog(): Promise<Show[]> {
+    const playlistUrls = this.config.playlistUrls ?? [];
+    const manifestUrl = this.config.manifestUrl ?? (playlistUrls.length === 0 ? DEFAULT_MANIFEST_URL : null);
+
+    // Files that fail to load are skipped
+    const errors: RepositoryError[] = [];
+    const skipOnError = <T>(url: string, loading: Promise<T>): Promise<T | null> =>
+      loading.catch((error) => {
+        console.error(`[Manifest] Failed to load ${url}:`, error);
+        errors.push(toRepositoryError(error, `Loading ${url}`));
+        return null;
+      });
+
+    const [manifestShows, playlistShows] = await Promise.all([
+      manifestUrl ? skipOnError(manifestUrl, this.fetchManifest(manifestUrl)) : Promise.resolve([]),
+      Promise.all(playlistUrls.map((url) => skipOnError(url, this.fetchPlaylist(url)))),
+    ]);
+
+    const shows: Show[] = [];
+    for (const internalShow of [...(manifestShows ?? []), ...playlistShows]) {
+      if (!internalShow || internalShow.episodes.length === 0) continue;
+
+      this.shows.set(internalShow.id, internalShow);
+      console.log(`[Manifest] Loaded ${internalShow.title} with ${internalShow.episodes.length} episodes`);
+
+      shows.push({
+        id: internalShow.id,
+        title: internalShow.title,
+        icon: internalShow.icon,
+        episodes: internalShow.episodes.map((ep) => {
+          const saved = this.progress.load(ep.id);
+          return {
+            id: ep.id,
+            title: ep.title,
+            icon: ep.icon,
+            episodeNumber: ep.episodeNumber,
+            progress: saved && saved.duration > 0 ? saved.currentTime / saved.duration : undefined,
+            isFinished: saved?.isFinished,
+          };
+        }),
+        currentEpisodeId: internalShow.currentEpisodeId || internalShow.episodes[0].id,
+      });
+    }
+
+    // Files that failed are left out - unless nothing could be loaded at all
+    if (shows.length === 0 && errors.length > 0) {
+      throw errors[0];
+    }
+    return shows;
+  }
+
+  private async fetchManifest(manifestUrl: string): Promise<ManifestShow[]> {
+    const baseUrl = new URL(manifestUrl, document.baseURI).href;
+    const response = await fetchOrThrow(manifestUrl, () => fetch(baseUrl));
+    const manifest: ManifestFile = await response.json();
+
+    if (!Array.isArray(manifest?.shows)) {
+      throw new ServerError(`${manifestUrl} has no "shows" array`);
+    }
+
+    return manifest.shows.map((show) => ({
+      id: show.id,
+      title: show.title,
+      icon: this.resolveIcon(show.icon, baseUrl) ?? DEFAULT_ICON,
+      currentEpisodeId: show.currentEpisodeId,
+      episodes: (show.episodes ?? [])
+        .filter((ep) => {
+          if (!ep.url) console.warn(`[Manifest] Episode without url skipped: ${ep.id}`);
+          return !!ep.url;
+        })
+        .map((ep) => ({
+          id: ep.id,
+          title: ep.title,
+          icon: this.resolveIcon(ep.icon, baseUrl),
+          episodeNumber: ep.episodeNumber,
+          playbackUrl: new URL(ep.url, baseUrl).href,
+          duration: ep.duration || 0,
+        })),
+    }));
+  }
+
+  /**
+   * Load an extended M3U playlist as a show
+   * Understands #EXTINF (duration and title), #PLAYLIST (show title), #EXTALB (album,
+   * used as title fallback) and #EXTIMG (cover image).
+   */
+  private async fetchPlaylist(playlistUrl: string): Promise<ManifestShow> {
+    const baseUrl = new URL(playlistUrl, document.baseURI).href;
+    const response = await fetchOrThrow(playlistUrl, () => fetch(baseUrl));
+    const text = await response.text();
+
+    let title: string | null = null;
+    let album: string | null = null;
+    let icon: string | undefined;
+    let entryInfo: { duration: number; title: string } | null = null;
+    const episodes: ManifestEpisode[] = [];
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.trim();
+      if (!line) continue;
+
+      if (line.startsWith('#')) {
+        const separator = line.indexOf(':');
+        const directive = separator === -1 ? line : line.slice(0, separator);
+        const value = separator === -1 ? '' : line.slice(separator + 1).trim();
+
+        switch (directive.toUpperCase()) {
+          case '#EXTINF': {
+            // "#EXTINF:<seconds>[ attributes],<title>" - the duration is -1 for streams
+            const comma = value.indexOf(',');
+            const duration = parseFloat(value);
+            entryInfo = {
+              duration: duration > 0 ? duration : 0,
+              title: comma === -1 ? '' : value.slice(comma + 1).trim(),
+            };
+            break;
+          }
+          case '#PLAYLIST':
+            title = value || title;
+            break;
+          case '#EXTALB':
+            album = value || album;
+            break;
+          case '#EXTIMG':
+            icon = this.resolveIcon(value, baseUrl) ?? icon;
+            break;
+        }
+        continue;
+      }
+
+      const playbackUrl = new URL(line, baseUrl).href;
+      episodes.push({
+        id: playbackUrl,
+        title: entryInfo?.title || this.fileTitle(line),
+        episodeNumber: String(episodes.length + 1),
+        playbackUrl,
+        duration: entryInfo?.duration ?? 0,
+      });
+      entryInfo = null;
+    }
+
+    return {
+      id: baseUrl,
+      title: title || album || this.fileTitle(playlistUrl),
+      icon: icon ?? DEFAULT_ICON,
+      episodes,
+    };
+  }
+
+  /**
+   * Icons are emoji or image paths - only the latter are resolved to URLs
+   */
+  private resolveIcon(icon: string | undefined, baseUrl: string): string | undefined {
+    if (!icon) return undefined;
+    return /[./]/.test(icon) ? new URL(icon, baseUrl).href : icon;
+  }
+
+  /**
+   * Readable title from a path or URL: the file name without extension
+   */
+  private fileTitle(path: string): string {
+    let name = path.split(/[/\\]/).pop() ?? path;
+    try {
+      name = decodeURIComponent(name);
+    } catch {
+      // Not percent-encoded - use as is
+    }
+    return name.replace(/\.[^.]+$/, '') || path;
+  }
+
+  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession> {
+    const episode = this.shows.get(showId)?.episodes.find((ep) => ep.id === episodeId);
+    if (!episode) {
+      throw new NotFoundError(`Episode not found: ${showId} / ${episodeId}`);
+    }
+
+    const savedProgress = this.progress.load(episodeId);
+    const startTime = savedProgress?.currentTime || 0;
+
+    console.log(`[Manifest] Begin playback: ${episodeId} at ${startTime.toFixed(1)}s`);
+
+    // Use episodeId as the session ID (no server-side session tracking needed)
+    return {
+      sessionId: episodeId,
+      playbackUrl: episode.playbackUrl,
+      startTime,
+      duration: episode.duration || savedProgress?.duration || 0,
+    };
+  }
+
+  async updateProgress(
+    sessionId: string,
+    currentTime: number,
+    duration: number,
+    _timeListened: number
+  ): Promise<void> {
+    // sessionId is the episodeId
+    this.progress.save(sessionId, currentTime, duration);
+  }
+
+  async endPlayback(sessionId: string): Promise<void> {
+    console.log(`[Manifest] End playback session: ${sessionId}`);
+  }
+
+  async markFinished(_showId: string, episodeId: string, finished: boolean): Promise<boolean> {
+    console.log(`[Manifest] Mark ${episodeId} as ${finished ? 'finished' : 'not finished'}`);
+    return this.progress.setFinished(episodeId, finished);
+  }
+
+  async resetProgress(_showId: string, episodeId: string): Promise<boolean> {
+    console.log(`[Manifest] Reset progress: ${episodeId}`);
+    return this.progress.remove(episodeId);
+  }
+}
@@ -10,6 +10,12 @@ export interface Episode {
   icon?: string;
   /** Optional episode number from the source - if not provided, will use array index + 1 */
   episodeNumber?: string;
+  /** Optional listening progress from 0 to 1, if the source tracks it */
+  progress?: number;
+  /** Optional: whether the episode has been listened to completely */
+  isFinished?: boolean;
+  /** Optional: when the episode was last played (epoch ms) */
+  lastPlayedAt?: number;
 }
 
 /**
@@ -20,6 +26,8 @@ export interface Show {
   id: string;
   /** Display title for the show */
   title: string;
+  /** Optional label of the group the show belongs to (e.g. its library), shown with the title */
+  group?: string;
   /** Icon URL or emoji character */
   icon: string;
   /** Array of episodes in this show */
@@ -28,6 +36,18 @@ export interface Show {
   currentEpisodeId: string;
 }
 
+/**
+ * One audio file of a playback session that spans several files
+ */
+export interface PlaybackTrack {
+  /** The URL to the audio file */
+  url: string;
+  /** Where the file starts on the session timeline (in seconds) - negative if the episode starts mid-file */
+  startOffset: number;
+  /** Duration of the file (in seconds) */
+  duration: number;
+}
+
 /**
  * Represents an active playback session
  */
@@ -36,20 +56,61 @@ export interface PlaybackSession {
   sessionId: string;
   /** The URL to the actual audio stream */
   playbackUrl: string;
+  /**
+   * Optional: alternative URLs for the same audio (e.g. other formats or bitrates),
+   * tried in order when playbackUrl fails to load. Ignored when tracks is given.
+   */
+  fallbackUrls?: string[];
   /** Where to start playback (in seconds) - resume position */
   startTime: number;
   /** Total duration of the episode (in seconds) */
   duration: number;
+  /**
+   * Optional: the audio files making up the episode, in playback order
+   * When given, playback moves across file boundaries and playbackUrl is ignored.
+   * startTime, duration and reported progress all refer to the episode timeline,
+   * and playback ends at duration even if the last file continues.
+   */
+  tracks?: PlaybackTrack[];
 }
 
+/**
+ * Listening progress fields of an episode
+ */
+export type EpisodeProgress = Pick<Episode, 'progress' | 'isFinished' | 'lastPlayedAt'>;
+
+/**
+ * A change to the catalog after getCatalog() has resolved
+ */
+export type CatalogChange =
+  /** The whole catalog was reloaded (e.g. a cached catalog was refreshed) */
+  | { type: 'catalog-replaced'; shows: Show[] }
+  /** A show was added, or an existing show's metadata or episodes changed */
+  | { type: 'show-updated'; show: Show }
+  /** A show is no longer available */
+  | { type: 'show-removed'; showId: string }
+  /** An episode's listening progress changed (e.g. on another device) */
+  | { type: 'episode-progress'; showId: string; episodeId: string; progress: EpisodeProgress };
+
+/**
+ * Callback receiving catalog changes
+ */
+export type CatalogChangeListener = (change: CatalogChange) => void;
+
 /**
  * Interface for media repository implementations
  * Provides catalog browsing and playback session management
+ *
+ * Failures are reported by rejecting with a RepositoryError (see repository-error.ts),
+ * so the UI can show what went wrong and offer a retry.
  */
 export interface MediaRepository {
   /**
    * Get the catalog of available shows and episodes
+   * Shows that fail to load individually are left out; if nothing could be loaded
+   * at all, the promise rejects instead of resolving to an empty catalog.
    * @returns Promise resolving to array of shows
+   * @throws RepositoryError if the catalog can't be loaded
    */
   getCatalog(): Promise<Show[]>;
 
@@ -57,9 +118,10 @@ export interface MediaRepository {
    * Start a playback session for an episode
    * @param showId - The ID of the show
    * @param episodeId - The ID of the episode to play
-   * @returns Promise resolving to playback session info, or null if failed
+   * @returns Promise resolving to playback session info
+   * @throws RepositoryError if playback can't be started
    */
-  startPlayback(showId: string, episodeId: string): Promise<PlaybackSession | null>;
+  startPlayback(showId: string, episodeId: string): Promise<PlaybackSession>;
 
   /**
    * Update progress for an active playback session
@@ -67,6 +129,7 @@ export interface MediaRepository {
    * @param currentTime - Current playback position (in seconds)
    * @param duration - Total duration (in seconds)
    * @param timeListened - Time listened since last update (in seconds)
+   * @throws RepositoryError if the progress couldn't be saved
    */
   updateProgress(
     sessionId: string,
@@ -80,4 +143,32 @@ export interface MediaRepository {
    * @param sessionId - The session identifier from startPlayback
    */
   endPlayback(sessionId: string): Promise<void>;
+
+  /**
+   * Optional: mark an episode as finished or not finished
+   * Must not be called for an episode with an active playback session.
+   * @param showId - The ID of the show
+   * @param episodeId - The ID of the episode
+   * @param finished - true to mark as finished, false to mark as not finished
+   * @returns Promise resolving to true if the change was saved
+   */
+  markFinished?(showId: string, episodeId: string, finished: boolean): Promise<boolean>;
+
+  /**
+   * Optional: forget an episode's progress so it starts from the beginning
+   * Must not be called for an episode with an active playback session.
+   * @param showId - The ID of the show
+   * @param episodeId - The ID of the episode
+   * @returns Promise resolving to true if the change was saved
+   */
+  resetProgress?(showId: string, episodeId: string): Promise<boolean>;
+
+  /**
+   * Optional: get notified when the catalog changes after getCatalog() has resolved
+   * (e.g. when a cached catalog was returned first and fresh data arrived later,
+   * or the server pushed a change)
+   * @param listener - Called with each change
+   * @returns Function that removes the listener
+   */
+  onCatalogChange?(listener: CatalogChangeListener): () => void;
 }
@@ -0,0 +1,308 @@
+import { Show, Episode, EpisodeProgress, MediaRepository, PlaybackSession } from '../media-repository.js';
+import { mapWithConcurrency } from '../concurrency.js';
+import {
+  RepositoryError,
+  UnsupportedFormatError,
+  NotFoundError,
+  fetchOrThrow,
+  toRepositoryError,
+} from '../repository-error.js';
+
+export interface PlexConfig {
+  /** Plex Media Server URL (e.g. "http://192.168.1.10:32400") */
+  url: string;
+  /** X-Plex-Token of the account whose progress is used */
+  token: string;
+  /** Key of the music or audiobook library section */
+  libraryId: string;
+  /** Whether albums (default) or artists become shows - artists list the tracks of all their albums */
+  showsAs?: 'albums' | 'artists';
+  excludeShowIds?: string[];
+  excludeEpisodeIds?: string[];
+  /** Cover width/height in pixels requested from Plex's image transcoder (default: original size) */
+  coverSize?: number;
+}
+
+interface PlexMetadata {
+  ratingKey: string;
+  title: string;
+  type: string;
+  index?: number;
+  thumb?: string;
+  /** Duration in milliseconds */
+  duration?: number;
+  /** Resume position in milliseconds, absent when not started or played completely */
+  viewOffset?: number;
+  viewCount?: number;
+  /** Epoch seconds */
+  lastViewedAt?: number;
+  Media?: Array<{
+    Part?: Array<{ key: string }>;
+  }>;
+}
+
+interface PlexResponse {
+  MediaContainer: {
+    Metadata?: PlexMetadata[];
+  };
+}
+
+/**
+ * Active Plex playback session, needed to report the timeline for the right item
+ */
+interface PlexSession {
+  ratingKey: string;
+  timeMs: number;
+  durationMs: number;
+}
+
+// Plex library item types
+const PLEX_TYPE_ARTIST = 8;
+const PLEX_TYPE_ALBUM = 9;
+const LIBRARY_IDENTIFIER = 'com.plexapp.plugins.library';
+const MAX_CONCURRENT_REQUESTS = 4;
+
+/**
+ * Plex implementation of MediaRepository
+ *
+ * Maps the albums (or artists) of a music/audiobook library section to shows and their
+ * tracks to episodes. Resume positions come from Plex's viewOffset and progress is
+ * reported through the /:/timeline endpoint, like other Plex players do.
+ */
+export class PlexRepository implements MediaRepository {
+  private sessions = new Map<string, PlexSession>();
+  private clientId: string;
+
+  constructor(private config: PlexConfig) {
+    this.clientId = this.loadClientId();
+  }
+
+  async getCatalog(): Promise<Show[]> {
+    try {
+      const type = this.config.showsAs === 'artists' ? PLEX_TYPE_ARTIST : PLEX_TYPE_ALBUM;
+      const library = await this.request<PlexResponse>(
+        `/library/sections/${this.config.libraryId}/all?type=${type}&sort=titleSort`
+      );
+
+      const items = (library.MediaContainer.Metadata ?? []).filter(
+        (item) => !this.config.excludeShowIds?.includes(item.ratingKey)
+      );
+
+      const errors: RepositoryError[] = [];
+      const shows = await mapWithConcurrency(items, MAX_CONCURRENT_REQUESTS, async (item) => {
+        try {
+          return await this.loadShow(item);
+        } catch (error) {
+          console.error(`[Plex] Failed to fetch tracks of ${item.title}:`, error);
+          errors.push(toRepositoryError(error, `Tracks of ${item.ratingKey}`));
+          return null;
+        }
+      });
+
+      const loaded = shows.filter((show): show is Show => !!show && show.episodes.length > 0);
+
+      // Shows that failed are left out - unless none could be loaded at all
+      if (loaded.length === 0 && errors.length > 0) {
+        throw errors[0];
+      }
+      return loaded;
+    } catch (error) {
+      console.error('[Plex] Failed to fetch catalog:', error);
+      throw toRepositoryError(error, 'Catalog request');
+    }
+  }
+
+  private async loadShow(item: PlexMetadata): Promise<Show> {
+    // allLeaves returns the tracks of all albums for artists, and the tracks for albums
+    const tracks = await this.request<PlexResponse>(`/library/metadata/${item.ratingKey}/allLeaves`);
+
+    const episodes = (tracks.MediaContainer.Metadata ?? [])
+      .filter((track) => !this.config.excludeEpisodeIds?.includes(track.ratingKey))
+      .map((track): Episode => ({
+        id: track.ratingKey,
+        title: track.title,
+        episodeNumber: track.index?.toString(),
+        ...this.trackProgress(track),
+      }));
+
+    return {
+      id: item.ratingKey,
+      title: item.title,
+      icon: item.thumb ? this.imageUrl(item.thumb) : '🎧',
+      currentEpisodeId: episodes.length > 0 ? episodes[0].id : '',
+      episodes,
+    };
+  }
+
+  /**
+   * Plex counts a track as played once viewCount is set and it has no resume position
+   */
+  private trackProgress(track: PlexMetadata): EpisodeProgress {
+    const isFinished = !!track.viewCount && !track.viewOffset;
+    return {
+      isFinished,
+      progress: !isFinished && track.viewOffset && track.duration ? track.viewOffset / track.duration : undefined,
+      lastPlayedAt: track.lastViewedAt ? track.lastViewedAt * 1000 : undefined,
+    };
+  }
+
+  async startPlayback(_showId: string, episodeId: string): Promise<PlaybackSession> {
+    try {
+      // Fetch the track fresh so the resume position reflects progress from other clients
+      const response = await this.request<PlexResponse>(`/library/metadata/${episodeId}`);
+      const track = response.MediaContainer.Metadata?.[0];
+      if (!track) {
+        throw new NotFoundError(`Track not found: ${episodeId}`);
+      }
+      const partKey = track.Media?.[0]?.Part?.[0]?.key;
+      if (!partKey) {
+        throw new UnsupportedFormatError(`No playable file for ${episodeId}`);
+      }
+
+      const startMs = track.viewOffset || 0;
+      const durationMs = track.duration || 0;
+      const sessionId = `xmb-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      this.sessions.set(sessionId, { ratingKey: episodeId, timeMs: startMs, durationMs });
+
+      console.log(
+        `[Plex] Begin playback session: ${episodeId} at ${(startMs / 1000).toFixed(1)}s / ${(durationMs / 1000).toFixed(1)}s`
+      );
+
+      return {
+        sessionId,
+        // Direct play - audiobook files are played as stored
+        playbackUrl: `${this.config.url}${partKey}?X-Plex-Token=${encodeURIComponent(this.config.token)}`,
+        startTime: startMs / 1000,
+        duration: durationMs / 1000,
+      };
+    } catch (error) {
+      console.error('[Plex] Failed to start playback session:', error);
+      throw toRepositoryError(error, 'Play request');
+    }
+  }
+
+  async updateProgress(
+    sessionId: string,
+    currentTime: number,
+    duration: number,
+    _timeListened: number
+  ): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      console.warn('[Plex] Session not found:', sessionId);
+      return;
+    }
+
+    if (!duration || duration <= 0 || isNaN(duration) || isNaN(currentTime) || currentTime < 0) {
+      return;
+    }
+
+    try {
+      console.log(`[Plex] Update timeline: ${currentTime.toFixed(1)}s`);
+
+      session.timeMs = Math.round(currentTime * 1000);
+      session.durationMs = Math.round(duration * 1000);
+      await this.reportTimeline(session, 'playing');
+    } catch (error) {
+      console.error('[Plex] Update progress error:', error);
+      throw toRepositoryError(error, 'Timeline report');
+    }
+  }
+
+  async endPlayback(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return;
+    }
+
+    try {
+      console.log(`[Plex] End playback session: ${sessionId}`);
+      await this.reportTimeline(session, 'stopped');
+    } catch (error) {
+      console.error('[Plex] End playback session error:', error);
+    } finally {
+      this.sessions.delete(sessionId);
+    }
+  }
+
+  async markFinished(_showId: string, episodeId: string, finished: boolean): Promise<boolean> {
+    try {
+      console.log(`[Plex] Mark ${episodeId} as ${finished ? 'played' : 'unplayed'}`);
+      // Unscrobbling also clears the resume position - Plex has no "unplayed but started" state
+      await this.request(
+        `/:/${finished ? 'scrobble' : 'unscrobble'}?identifier=${LIBRARY_IDENTIFIER}&key=${episodeId}`
+      );
+      return true;
+    } catch (error) {
+      console.error('[Plex] Mark finished error:', error);
+      return false;
+    }
+  }
+
+  async resetProgress(showId: string, episodeId: string): Promise<boolean> {
+    return this.markFinished(showId, episodeId, false);
+  }
+
+  private reportTimeline(session: PlexSession, state: 'playing' | 'stopped'): Promise<void> {
+    const params = new URLSearchParams({
+      ratingKey: session.ratingKey,
+      key: `/library/metadata/${session.ratingKey}`,
+      state,
+      time: String(session.timeMs),
+      duration: String(session.durationMs),
+    });
+    return this.request(`/:/timeline?${params}`);
+  }
+
+  /**
+   * Perform an authenticated API request, throwing a RepositoryError on failure
+   */
+  private async request<T = void>(path: string): Promise<T> {
+    const response = await fetchOrThrow(path, () =>
+      fetch(`${this.config.url}${path}`, {
+        headers: {
+          Accept: 'application/json',
+          'X-Plex-Token': this.config.token,
+          'X-Plex-Client-Identifier': this.clientId,
+          'X-Plex-Product': 'XMB Audiobook Player',
+          'X-Plex-Device-Name': 'Browser',
+        },
+      })
+    );
+
+    // Reporting endpoints answer without a body
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as T;
+  }
+
+  private imageUrl(thumb: string): string {
+    const token = encodeURIComponent(this.config.token);
+    if (!this.config.coverSize) {
+      return `${this.config.url}${thumb}?X-Plex-Token=${token}`;
+    }
+
+    const size = this.config.coverSize;
+    return (
+      `${this.config.url}/photo/:/transcode?width=${size}&height=${size}&minSize=1` +
+      `&url=${encodeURIComponent(thumb)}&X-Plex-Token=${token}`
+    );
+  }
+
+  /**
+   * Plex lists players per client identifier, so keep it stable across page loads
+   */
+  private loadClientId(): string {
+    const key = 'plex:clientId';
+    try {
+      const existing = localStorage.getItem(key);
+      if (existing) return existing;
+
+      const clientId = `xmb-${Math.random().toString(36).substr(2, 12)}`;
+      localStorage.setItem(key, clientId);
+      return clientId;
+    } catch (error) {
+      console.warn('[Plex] Failed to persist client ID:', error);
+      return 'xmb-player';
+    }
+  }
+}
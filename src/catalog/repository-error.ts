@@ -0,0 +1,137 @@
+/**
+ * What went wrong, so the UI can describe it and decide how to offer a retry
+ * - 'auth': credentials missing, wrong or expired
+ * - 'network': the server could not be reached (offline, DNS, CORS, timeout)
+ * - 'not-found': the show, episode or file doesn't exist (anymore)
+ * - 'server': the server answered with an error or something unexpected
+ * - 'unsupported-format': the media can't be played in this browser
+ */
+export type RepositoryErrorKind = 'auth' | 'network' | 'not-found' | 'server' | 'unsupported-format';
+
+/**
+ * Error thrown by MediaRepository implementations when an operation fails
+ * The message is meant for logs; use describeError() for a user-facing summary.
+ */
+export class RepositoryError extends Error {
+  /**
+   * @param kind - Category of the failure
+   * @param message - Technical description (e.g. "/library/items returned 503")
+   * @param cause - Underlying error, if any
+   */
+  constructor(
+    readonly kind: RepositoryErrorKind,
+    message: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class AuthError extends RepositoryError {
+  constructor(message: string, cause?: unknown) {
+    super('auth', message, cause);
+  }
+}
+
+export class NetworkError extends RepositoryError {
+  constructor(message: string, cause?: unknown) {
+    super('network', message, cause);
+  }
+}
+
+export class NotFoundError extends RepositoryError {
+  constructor(message: string, cause?: unknown) {
+    super('not-found', message, cause);
+  }
+}
+
+export class ServerError extends RepositoryError {
+  /**
+   * @param status - HTTP status code, if the server answered
+   */
+  constructor(message: string, readonly status?: number, cause?: unknown) {
+    super('server', message, cause);
+  }
+}
+
+export class UnsupportedFormatError extends RepositoryError {
+  constructor(message: string, cause?: unknown) {
+    super('unsupported-format', message, cause);
+  }
+}
+
+/**
+ * Error for an HTTP response that isn't ok, by status code
+ * @param what - What was requested, for the message (e.g. "Catalog request")
+ */
+export function errorFromResponse(response: Response, what: string): RepositoryError {
+  const message = `${what} returned ${response.status}`;
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new AuthError(message);
+    case 404:
+    case 410:
+      return new NotFoundError(message);
+    default:
+      return new ServerError(message, response.status);
+  }
+}
+
+/**
+ * Convert anything thrown into a RepositoryError
+ * Network failures are already NetworkErrors (see fetchOrThrow()); anything else that isn't
+ * a RepositoryError - including TypeErrors from unexpected responses - becomes a ServerError.
+ */
+export function toRepositoryError(error: unknown, what: string): RepositoryError {
+  if (error instanceof RepositoryError) {
+    return error;
+  }
+  return new ServerError(`${what} failed: ${error instanceof Error ? error.message : String(error)}`, undefined, error);
+}
+
+/**
+ * Send a request and throw a RepositoryError for network failures and non-ok responses
+ * send() rejecting means the server couldn't be reached (fetch() rejects with a TypeError),
+ * unless it already threw a RepositoryError itself.
+ * @param what - What is requested, for error messages (e.g. "Metadata request")
+ * @param send - Performs the request, e.g. () => fetch(url)
+ */
+export async function fetchOrThrow(what: string, send: () => Promise<Response>): Promise<Response> {
+  let response: Response;
+  try {
+    response = await send();
+  } catch (error) {
+    if (error instanceof RepositoryError) {
+      throw error;
+    }
+    throw new NetworkError(`${what} failed: ${error instanceof Error ? error.message : String(error)}`, error);
+  }
+
+  if (!response.ok) {
+    throw errorFromResponse(response, what);
+  }
+  return response;
+}
+
+/**
+ * Short user-facing summary of an error, for the error state in the UI
+ */
+export function describeError(error: unknown): string {
+  const kind = error instanceof RepositoryError ? error.kind : null;
+  switch (kind) {
+    case 'auth':
+      return 'Sign-in failed or expired';
+    case 'network':
+      return 'Server not reachable';
+    case 'not-found':
+      return 'Not found on the server';
+    case 'server':
+      return 'The server reported an error';
+    case 'unsupported-format':
+      return 'Audio format not supported';
+    default:
+      return 'Something went wrong';
+  }
+}
@@ -0,0 +1,276 @@
+import { Show, MediaRepository, PlaybackSession } from '../media-repository.js';
+import { LocalProgressStore } from '../local-progress.js';
+import {
+  RepositoryError,
+  NotFoundError,
+  ServerError,
+  UnsupportedFormatError,
+  fetchOrThrow,
+  toRepositoryError,
+} from '../repository-error.js';
+
+export interface RssFeedConfig {
+  /** List of RSS 2.0 or Atom feed URLs */
+  feedUrls: string[];
+  /**
+   * Optional CORS proxy prefix for feeds whose servers don't send CORS headers
+   * (e.g. "https://corsproxy.example.com/?"). The feed URL is appended as-is.
+   */
+  corsProxy?: string;
+}
+
+const ITUNES_NS = 'http://www.itunes.com/dtds/podcast-1.0.dtd';
+
+/**
+ * Internal representation of a feed episode with playback metadata
+ */
+interface RssEpisode {
+  id: string;
+  title: string;
+  icon?: string;
+  episodeNumber?: string;
+  playbackUrl: string;
+  duration: number; // in seconds, 0 if the feed doesn't say
+  publishedAt: number; // epoch ms, NaN if unknown
+}
+
+/**
+ * Internal representation of a feed with all metadata
+ */
+interface RssShow {
+  id: string;
+  title: string;
+  icon: string;
+  episodes: RssEpisode[];
+}
+
+/**
+ * RSS/Atom podcast feed implementation of MediaRepository
+ * Works without any server; resume positions are kept in localStorage.
+ */
+export class RssFeedRepository implements MediaRepository {
+  private shows = new Map<string, RssShow>();
+  private progress = new LocalProgressStore('rss', '[RSS]');
+
+  constructor(private config: RssFeedConfig) {}
+
+  async getCatalog(): Promise<Show[]> {
+    const errors: RepositoryError[] = [];
+    const feeds = await Promise.all(
+      this.config.feedUrls.map(async (feedUrl) => {
+        try {
+          return await this.fetchFeed(feedUrl);
+        } catch (error) {
+          console.error(`[RSS] Failed to fetch feed ${feedUrl}:`, error);
+          errors.push(toRepositoryError(error, `Feed ${feedUrl}`));
+          return null;
+        }
+      })
+    );
+
+    const shows: Show[] = [];
+    for (const internalShow of feeds) {
+      if (!internalShow) continue;
+
+      this.shows.set(internalShow.id, internalShow);
+      console.log(`[RSS] Loaded feed: ${internalShow.title} with ${internalShow.episodes.length} episodes`);
+
+      shows.push({
+        id: internalShow.id,
+        title: internalShow.title,
+        icon: internalShow.icon,
+        episodes: internalShow.episodes.map((ep) => ({
+          id: ep.id,
+          title: ep.title,
+          icon: ep.icon,
+          episodeNumber: ep.episodeNumber,
+        })),
+        currentEpisodeId: internalShow.episodes[0]?.id || '',
+      });
+    }
+
+    // Feeds that failed are left out - unless none could be loaded at all
+    if (shows.length === 0 && errors.length > 0) {
+      throw errors[0];
+    }
+    return shows;
+  }
+
+  private async fetchFeed(feedUrl: string): Promise<RssShow> {
+    const response = await fetchOrThrow(feedUrl, () => fetch(`${this.config.corsProxy ?? ''}${feedUrl}`));
+
+    const doc = new DOMParser().parseFromString(await response.text(), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new ServerError(`Feed is not valid XML: ${feedUrl}`);
+    }
+
+    const root = doc.documentElement;
+    const show = root.localName === 'feed'
+      ? this.parseAtom(root, feedUrl)
+      : this.parseRss(root, feedUrl);
+
+    if (!show || show.episodes.length === 0) {
+      throw new UnsupportedFormatError(`No playable episodes found in ${feedUrl}`);
+    }
+
+    // Feeds list newest first - play them in chronological order like a book
+    show.episodes.sort((a, b) => {
+      if (isNaN(a.publishedAt) || isNaN(b.publishedAt)) return 0;
+      return a.publishedAt - b.publishedAt;
+    });
+
+    return show;
+  }
+
+  private parseRss(root: Element, feedUrl: string): RssShow | null {
+    const channel = this.child(root, 'channel');
+    if (!channel) return null;
+
+    const icon =
+      this.child(channel, 'image', ITUNES_NS)?.getAttribute('href') ||
+      this.childText(this.child(channel, 'image'), 'url') ||
+      '🎙️';
+
+    const episodes: RssEpisode[] = [];
+    for (const item of this.children(channel, 'item')) {
+      const enclosure = this.child(item, 'enclosure');
+      const url = enclosure?.getAttribute('url');
+      if (!url || !this.isAudio(enclosure?.getAttribute('type'))) continue;
+
+      episodes.push({
+        id: this.childText(item, 'guid') || url,
+        title: this.childText(item, 'title') || url,
+        icon: this.child(item, 'image', ITUNES_NS)?.getAttribute('href') || undefined,
+        episodeNumber: this.childText(item, 'episode', ITUNES_NS) || undefined,
+        playbackUrl: url,
+        duration: this.parseDuration(this.childText(item, 'duration', ITUNES_NS)),
+        publishedAt: Date.parse(this.childText(item, 'pubDate') ?? ''),
+      });
+    }
+
+    return {
+      id: feedUrl,
+      title: this.childText(channel, 'title') || feedUrl,
+      icon,
+      episodes,
+    };
+  }
+
+  private parseAtom(root: Element, feedUrl: string): RssShow {
+    const icon =
+      this.child(root, 'image', ITUNES_NS)?.getAttribute('href') ||
+      this.childText(root, 'logo') ||
+      this.childText(root, 'icon') ||
+      '🎙️';
+
+    const episodes: RssEpisode[] = [];
+    for (const entry of this.children(root, 'entry')) {
+      const enclosure = this.children(entry, 'link').find(
+        (link) => link.getAttribute('rel') === 'enclosure' && this.isAudio(link.getAttribute('type'))
+      );
+      const url = enclosure?.getAttribute('href');
+      if (!url) continue;
+
+      episodes.push({
+        id: this.childText(entry, 'id') || url,
+        title: this.childText(entry, 'title') || url,
+        icon: this.child(entry, 'image', ITUNES_NS)?.getAttribute('href') || undefined,
+        episodeNumber: this.childText(entry, 'episode', ITUNES_NS) || undefined,
+        playbackUrl: url,
+        duration: this.parseDuration(this.childText(entry, 'duration', ITUNES_NS)),
+        publishedAt: Date.parse(
+          this.childText(entry, 'published') ?? this.childText(entry, 'updated') ?? ''
+        ),
+      });
+    }
+
+    return {
+      id: feedUrl,
+      title: this.childText(root, 'title') || feedUrl,
+      icon,
+      episodes,
+    };
+  }
+
+  private isAudio(type: string | null | undefined): boolean {
+    // Many feeds omit the type - assume audio then
+    return !type || type.startsWith('audio/');
+  }
+
+  /**
+   * Direct child elements by local name
+   * Without a namespace, only un-prefixed elements match (so "image" doesn't pick up "itunes:image")
+   */
+  private children(parent: Element, localName: string, namespace?: string): Element[] {
+    return Array.from(parent.children).filter(
+      (el) =>
+        el.localName === localName &&
+        (namespace ? el.namespaceURI === namespace : el.namespaceURI !== ITUNES_NS)
+    );
+  }
+
+  private child(parent: Element | null, localName: string, namespace?: string): Element | null {
+    if (!parent) return null;
+    return this.children(parent, localName, namespace)[0] ?? null;
+  }
+
+  private childText(parent: Element | null, localName: string, namespace?: string): string | null {
+    return this.child(parent, localName, namespace)?.textContent?.trim() || null;
+  }
+
+  private parseDuration(value: string | null): number {
+    if (!value) return 0;
+
+    // itunes:duration is either "HH:MM:SS", "MM:SS" or plain seconds
+    if (value.includes(':')) {
+      return value
+        .split(':')
+        .map((p) => parseInt(p, 10) || 0)
+        .reduce((total, part) => total * 60 + part, 0);
+    }
+
+    const asNumber = parseFloat(value);
+    return isNaN(asNumber) ? 0 : Math.floor(asNumber);
+  }
+
+  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession> {
+    const show = this.shows.get(showId);
+    if (!show) {
+      throw new NotFoundError(`Show not found: ${showId}`);
+    }
+
+    const episode = show.episodes.find((ep) => ep.id === episodeId);
+    if (!episode) {
+      throw new NotFoundError(`Episode not found: ${episodeId}`);
+    }
+
+    const savedProgress = this.progress.load(episodeId);
+    const startTime = savedProgress?.currentTime || 0;
+
+    console.log(`[RSS] Begin playback: ${episodeId} at ${startTime.toFixed(1)}s`);
+
+    // Use episodeId as the session ID (no server-side session tracking needed)
+    return {
+      sessionId: episodeId,
+      playbackUrl: episode.playbackUrl,
+      startTime,
+      duration: episode.duration || savedProgress?.duration || 0,
+    };
+  }
+
+  async updateProgress(
+    sessionId: string,
+    currentTime: number,
+    duration: number,
+    _timeListened: number
+  ): Promise<void> {
+    // sessionId is the episodeId
+    this.progress.save(sessionId, currentTime, duration);
+
+    console.log(`[RSS] Progress saved: ${currentTime.toFixed(1)}s / ${duration.toFixed(1)}s`);
+  }
+
+  async endPlayback(sessionId: string): Promise<void> {
+    console.log(`[RSS] End playback session: ${sessionId}`);
+  }
+}
@@ -1,13 +1,20 @@
-import { Show, MediaRepository, PlaybackSession } from '../media-repository.js';
+import { Show, Episode, MediaRepository, PlaybackSession } from '../media-repository.js';
 import sampleData from './sample-data.json';
+import { NotFoundError } from '../repository-error.js';
+import { generateEpisodeAudio } from './tone-generator.js';
 
 /**
  * Sample implementation of MediaRepository for testing and demo purposes
- * Uses pre-generated data from sample-data.json with emoji icons
+ * Uses pre-generated data from sample-data.json with emoji icons. Audio is synthesized
+ * in the browser and resume positions are kept in memory, so it works fully offline.
  */
 export class SampleRepository implements MediaRepository {
   private shows: Show[];
   private activeSessions: Map<string, { showId: string; episodeId: string; startTime: number }>;
+  // Resume position per episode ID (in seconds)
+  private positions = new Map<string, number>();
+  // Object URLs of generated clips per episode ID
+  private audioUrls = new Map<string, string>();
 
   constructor() {
     // Load shows from JSON data
@@ -23,44 +30,64 @@ export class SampleRepository implements MediaRepository {
     return JSON.parse(JSON.stringify(this.shows));
   }
 
-  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession | null> {
+  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession> {
     // Simulate network delay
     await new Promise((resolve) => setTimeout(resolve, 50));
 
     const show = this.shows.find((s) => s.id === showId);
     if (!show) {
-      console.error('[Sample] Show not found:', showId);
-      return null;
+      throw new NotFoundError(`Show not found: ${showId}`);
     }
 
     const episode = show.episodes.find((e) => e.id === episodeId);
     if (!episode) {
-      console.error('[Sample] Episode not found:', episodeId);
-      return null;
+      throw new NotFoundError(`Episode not found: ${episodeId}`);
     }
 
     // Generate a unique session ID
     const sessionId = `session-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
+    const duration = this.clipDuration(show, episode);
+    const startTime = this.positions.get(episodeId) ?? 0;
+
     // Store session info
     this.activeSessions.set(sessionId, {
       showId,
       episodeId,
-      startTime: 0,
+      startTime,
     });
 
-    console.log(`[Sample] Started playback session: ${sessionId} for ${episode.title}`);
+    console.log(`[Sample] Started playback session: ${sessionId} for ${episode.title} at ${startTime.toFixed(1)}s`);
 
-    // Return mock playback session
-    // Note: No actual playback URL since this is sample data
     return {
       sessionId,
-      playbackUrl: '', // Empty URL - no actual audio
-      startTime: 0,
-      duration: 1800, // Mock 30-minute episodes
+      playbackUrl: this.audioUrl(show, episode),
+      startTime,
+      duration,
     };
   }
 
+  /**
+   * Clips are short and vary in length so auto-advance is quick to try out
+   */
+  private clipDuration(show: Show, episode: Episode): number {
+    return 30 + (show.episodes.indexOf(episode) % 4) * 15;
+  }
+
+  /**
+   * Object URL of the episode's generated clip, created on first use
+   */
+  private audioUrl(show: Show, episode: Episode): string {
+    let url = this.audioUrls.get(episode.id);
+    if (!url) {
+      const showIndex = this.shows.indexOf(show);
+      const episodeNumber = parseInt(episode.episodeNumber ?? '', 10) || show.episodes.indexOf(episode) + 1;
+      url = URL.createObjectURL(generateEpisodeAudio(showIndex, episodeNumber, this.clipDuration(show, episode)));
+      this.audioUrls.set(episode.id, url);
+    }
+    return url;
+  }
+
   async updateProgress(
     sessionId: string,
     currentTime: number,
@@ -80,7 +107,13 @@ export class SampleRepository implements MediaRepository {
       `[Sample] Progress update for session ${sessionId}: ${currentTime.toFixed(1)}s / ${duration.toFixed(1)}s`
     );
 
-    // In a real implementation, this would persist to storage
+    // Kept in memory only, like markFinished()
+    this.positions.set(session.episodeId, currentTime);
+    const episode = this.findEpisode(session.showId, session.episodeId);
+    if (episode && duration > 0) {
+      episode.progress = currentTime / duration;
+      episode.lastPlayedAt = Date.now();
+    }
   }
 
   async endPlayback(sessionId: string): Promise<void> {
@@ -93,4 +126,38 @@ export class SampleRepository implements MediaRepository {
       this.activeSessions.delete(sessionId);
     }
   }
+
+  async markFinished(showId: string, episodeId: string, finished: boolean): Promise<boolean> {
+    const episode = this.findEpisode(showId, episodeId);
+    if (!episode) return false;
+
+    // Kept in memory only - the next getCatalog() reflects it until the page reloads
+    this.positions.delete(episodeId);
+    episode.isFinished = finished;
+    episode.progress = finished ? 1 : undefined;
+    console.log(`[Sample] Marked ${episode.title} as ${finished ? 'finished' : 'not finished'}`);
+    return true;
+  }
+
+  async resetProgress(showId: string, episodeId: string): Promise<boolean> {
+    const episode = this.findEpisode(showId, episodeId);
+    if (!episode) return false;
+
+    this.positions.delete(episodeId);
+    episode.isFinished = false;
+    episode.progress = undefined;
+    console.log(`[Sample] Reset progress of ${episode.title}`);
+    return true;
+  }
+
+  private findEpisode(showId: string, episodeId: string): Episode | null {
+    const episode = this.shows
+      .find((s) => s.id === showId)
+      ?.episodes.find((e) => e.id === episodeId);
+    if (!episode) {
+      console.error('[Sample] Episode not found:', showId, episodeId);
+      return null;
+    }
+    return episode;
+  }
 }
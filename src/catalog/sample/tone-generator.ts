@@ -0,0 +1,89 @@
+const SAMPLE_RATE = 8000;
+const VOLUME = 0.3;
+
+const LONG_BEEP = 0.4; // seconds, one per ten
+const SHORT_BEEP = 0.12; // seconds, one per unit
+const BEEP_GAP = 0.15;
+const CYCLE_PAUSE = 1.5;
+const FADE = 0.01; // fade in/out to avoid clicks
+
+// Pentatonic roots so every show sounds different
+const SHOW_FREQUENCIES = [261.63, 293.66, 329.63, 392.0, 440.0];
+
+/**
+ * Generate a WAV clip that identifies an episode by ear, without any network access
+ *
+ * The episode number is "spoken" as beeps - one long low beep per ten, then one short
+ * high beep per unit - repeated with a pause until the clip ends. The pitch depends on
+ * the show.
+ * @param showIndex - Position of the show in the catalog
+ * @param episodeNumber - Number to encode, 1-based
+ * @param duration - Length of the clip in seconds
+ */
+export function generateEpisodeAudio(showIndex: number, episodeNumber: number, duration: number): Blob {
+  const frequency = SHOW_FREQUENCIES[showIndex % SHOW_FREQUENCIES.length];
+  const samples = new Float32Array(Math.round(duration * SAMPLE_RATE));
+
+  // Beep pattern of one cycle as [start, length, frequency]
+  const beeps: Array<[number, number, number]> = [];
+  let offset = 0;
+  for (let i = 0; i < Math.floor(episodeNumber / 10); i++) {
+    beeps.push([offset, LONG_BEEP, frequency]);
+    offset += LONG_BEEP + BEEP_GAP;
+  }
+  for (let i = 0; i < episodeNumber % 10; i++) {
+    beeps.push([offset, SHORT_BEEP, frequency * 1.5]);
+    offset += SHORT_BEEP + BEEP_GAP;
+  }
+  const cycleLength = offset + CYCLE_PAUSE;
+
+  for (let cycleStart = 0; cycleStart < duration; cycleStart += cycleLength) {
+    for (const [start, length, beepFrequency] of beeps) {
+      writeTone(samples, cycleStart + start, length, beepFrequency);
+    }
+  }
+
+  return encodeWav(samples);
+}
+
+function writeTone(samples: Float32Array, start: number, length: number, frequency: number): void {
+  const first = Math.round(start * SAMPLE_RATE);
+  const count = Math.round(length * SAMPLE_RATE);
+  const fadeSamples = FADE * SAMPLE_RATE;
+
+  for (let i = 0; i < count && first + i < samples.length; i++) {
+    const envelope = Math.min(1, i / fadeSamples, (count - i) / fadeSamples);
+    samples[first + i] = VOLUME * envelope * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+  }
+}
+
+/**
+ * Encode mono samples (-1..1) as a 16-bit PCM WAV file
+ */
+function encodeWav(samples: Float32Array): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (at: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(at + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, SAMPLE_RATE, true);
+  view.setUint32(28, SAMPLE_RATE * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  samples.forEach((sample, i) => {
+    view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, sample)) * 0x7fff, true);
+  });
+
+  return new Blob([buffer], { type: 'audio/wav' });
+}
@@ -0,0 +1,301 @@
+import { Show, MediaRepository, PlaybackSession } from '../media-repository.js';
+import { LocalProgressStore } from '../local-progress.js';
+import { mapWithConcurrency } from '../concurrency.js';
+import {
+  RepositoryError,
+  AuthError,
+  NotFoundError,
+  ServerError,
+  fetchOrThrow,
+  toRepositoryError,
+} from '../repository-error.js';
+import { md5 } from './md5.js';
+
+export interface SubsonicConfig {
+  /** Server URL (e.g. "https://navidrome.example.com") */
+  url: string;
+  username: string;
+  password: string;
+  /** Only show albums of this genre (e.g. "Audio Drama") */
+  genre?: string;
+  /** Only show albums from this music folder (see getMusicFolders) */
+  musicFolderId?: string;
+  excludeShowIds?: string[];
+  /** Cover size in pixels requested from getCoverArt (default: original size) */
+  coverSize?: number;
+}
+
+interface SubsonicAlbum {
+  id: string;
+  name: string;
+  artist?: string;
+  coverArt?: string;
+  song?: SubsonicSong[];
+}
+
+interface SubsonicSong {
+  id: string;
+  title: string;
+  track?: number;
+  discNumber?: number;
+  /** Duration in seconds */
+  duration?: number;
+}
+
+interface SubsonicPlayQueue {
+  /** ID of the current song */
+  current?: string;
+  /** Position within the current song in milliseconds */
+  position?: number;
+}
+
+/**
+ * Common envelope of all JSON responses
+ */
+interface SubsonicResponse {
+  'subsonic-response': {
+    status: 'ok' | 'failed';
+    error?: { code: number; message: string };
+    albumList2?: { album?: SubsonicAlbum[] };
+    album?: SubsonicAlbum;
+    playQueue?: SubsonicPlayQueue;
+  };
+}
+
+/**
+ * Active playback session
+ */
+interface SubsonicSession {
+  songId: string;
+  scrobbled: boolean;
+}
+
+const API_VERSION = '1.16.1';
+const CLIENT_NAME = 'xmb-player';
+const ALBUM_PAGE_SIZE = 500;
+const MAX_CONCURRENT_REQUESTS = 4;
+// Share of a song that has to be played before it is scrobbled
+const SCROBBLE_THRESHOLD = 0.9;
+
+/**
+ * Subsonic API implementation of MediaRepository (Navidrome, Airsonic, Gonic, ...)
+ *
+ * Maps albums to shows and their songs to episodes. Subsonic only keeps a single play
+ * queue position per user, so resume positions are stored locally for every song and
+ * additionally saved to the server's play queue, which other clients - and this player on
+ * other devices - resume from. Songs are scrobbled once mostly played.
+ */
+export class SubsonicRepository implements MediaRepository {
+  private sessions = new Map<string, SubsonicSession>();
+  private progress: LocalProgressStore;
+
+  constructor(private config: SubsonicConfig) {
+    this.progress = new LocalProgressStore(`subsonic:${config.url}`, '[Subsonic]');
+  }
+
+  async getCatalog(): Promise<Show[]> {
+    try {
+      const albums = (await this.fetchAlbumList()).filter(
+        (album) => !this.config.excludeShowIds?.includes(album.id)
+      );
+
+      const errors: RepositoryError[] = [];
+      const detailed = await mapWithConcurrency(albums, MAX_CONCURRENT_REQUESTS, async (album) => {
+        try {
+          return (await this.request('getAlbum', { id: album.id })).album ?? null;
+        } catch (error) {
+          console.error(`[Subsonic] Failed to fetch album ${album.id}:`, error);
+          errors.push(toRepositoryError(error, `getAlbum ${album.id}`));
+          return null;
+        }
+      });
+
+      const shows: Show[] = [];
+      for (const album of detailed) {
+        const songs = album?.song ?? [];
+        if (!album || songs.length === 0) continue;
+
+        shows.push({
+          id: album.id,
+          title: album.name,
+          icon: album.coverArt ? this.coverUrl(album.coverArt) : '🎧',
+          episodes: songs.map((song) => {
+            const saved = this.progress.load(song.id);
+            return {
+              id: song.id,
+              title: song.title,
+              episodeNumber: song.track?.toString(),
+              progress: saved && saved.duration > 0 ? saved.currentTime / saved.duration : undefined,
+              isFinished: saved?.isFinished,
+            };
+          }),
+          currentEpisodeId: songs[0].id,
+        });
+      }
+
+      // Albums that failed are left out - unless none could be loaded at all
+      if (shows.length === 0 && errors.length > 0) {
+        throw errors[0];
+      }
+      return shows;
+    } catch (error) {
+      console.error('[Subsonic] Failed to fetch catalog:', error);
+      throw toRepositoryError(error, 'Catalog request');
+    }
+  }
+
+  private async fetchAlbumList(): Promise<SubsonicAlbum[]> {
+    const albums: SubsonicAlbum[] = [];
+
+    for (let offset = 0; ; offset += ALBUM_PAGE_SIZE) {
+      const params: Record<string, string> = {
+        type: this.config.genre ? 'byGenre' : 'alphabeticalByName',
+        size: String(ALBUM_PAGE_SIZE),
+        offset: String(offset),
+      };
+      if (this.config.genre) params.genre = this.config.genre;
+      if (this.config.musicFolderId) params.musicFolderId = this.config.musicFolderId;
+
+      const page = (await this.request('getAlbumList2', params)).albumList2?.album ?? [];
+      albums.push(...page);
+      if (page.length < ALBUM_PAGE_SIZE) return albums;
+    }
+  }
+
+  async startPlayback(_showId: string, episodeId: string): Promise<PlaybackSession> {
+    try {
+      // The server's play queue wins for the song it points at - it may come from another device
+      const { playQueue } = await this.request('getPlayQueue').catch(() => ({ playQueue: undefined }));
+      const saved = this.progress.load(episodeId);
+      const startTime = playQueue?.current === episodeId && playQueue.position
+        ? playQueue.position / 1000
+        : saved?.currentTime || 0;
+
+      this.sessions.set(episodeId, { songId: episodeId, scrobbled: false });
+
+      // "Now playing" notification - not counted as a play
+      this.request('scrobble', { id: episodeId, submission: 'false' }).catch((error) => {
+        console.warn('[Subsonic] Now playing notification failed:', error);
+      });
+
+      console.log(`[Subsonic] Begin playback: ${episodeId} at ${startTime.toFixed(1)}s`);
+
+      return {
+        // Use episodeId as the session ID (no server-side session tracking needed)
+        sessionId: episodeId,
+        playbackUrl: this.url('stream', { id: episodeId }),
+        startTime,
+        // Unknown until the file is loaded - the player takes it from the audio element
+        duration: saved?.duration || 0,
+      };
+    } catch (error) {
+      console.error('[Subsonic] Failed to start playback:', error);
+      throw toRepositoryError(error, 'Play request');
+    }
+  }
+
+  async updateProgress(
+    sessionId: string,
+    currentTime: number,
+    duration: number,
+    _timeListened: number
+  ): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      console.warn('[Subsonic] Session not found:', sessionId);
+      return;
+    }
+
+    this.progress.save(session.songId, currentTime, duration);
+
+    try {
+      await this.request('savePlayQueue', {
+        id: session.songId,
+        current: session.songId,
+        position: String(Math.round(currentTime * 1000)),
+      });
+
+      if (!session.scrobbled && duration > 0 && currentTime >= duration * SCROBBLE_THRESHOLD) {
+        session.scrobbled = true;
+        console.log(`[Subsonic] Scrobble: ${session.songId}`);
+        await this.request('scrobble', { id: session.songId, submission: 'true' });
+      }
+    } catch (error) {
+      console.error('[Subsonic] Update progress error:', error);
+      throw toRepositoryError(error, 'savePlayQueue');
+    }
+  }
+
+  async endPlayback(sessionId: string): Promise<void> {
+    console.log(`[Subsonic] End playback session: ${sessionId}`);
+    this.sessions.delete(sessionId);
+  }
+
+  async markFinished(_showId: string, episodeId: string, finished: boolean): Promise<boolean> {
+    console.log(`[Subsonic] Mark ${episodeId} as ${finished ? 'finished' : 'not finished'}`);
+    if (finished) {
+      this.request('scrobble', { id: episodeId, submission: 'true' }).catch((error) => {
+        console.warn('[Subsonic] Scrobble failed:', error);
+      });
+    }
+    return this.progress.setFinished(episodeId, finished);
+  }
+
+  async resetProgress(_showId: string, episodeId: string): Promise<boolean> {
+    console.log(`[Subsonic] Reset progress: ${episodeId}`);
+    return this.progress.remove(episodeId);
+  }
+
+  /**
+   * Call an API method, throwing a RepositoryError on HTTP or Subsonic errors
+   */
+  private async request(
+    method: string,
+    params: Record<string, string> = {}
+  ): Promise<SubsonicResponse['subsonic-response']> {
+    const response = await fetchOrThrow(method, () => fetch(this.url(method, params)));
+    const data: SubsonicResponse = await response.json();
+    const body = data['subsonic-response'];
+    if (body.status !== 'ok') {
+      const message = `${method} failed: ${body.error?.message ?? 'unknown error'} (${body.error?.code})`;
+      switch (body.error?.code) {
+        // Wrong credentials, token authentication not supported, user not authorized
+        case 40:
+        case 41:
+        case 50:
+          throw new AuthError(message);
+        case 70:
+          throw new NotFoundError(message);
+        default:
+          throw new ServerError(message);
+      }
+    }
+    return body;
+  }
+
+  /**
+   * URL of an API method with authentication - also used directly for streams and covers
+   * Token auth: t = md5(password + salt) with a fresh random salt s, so the password
+   * never appears in URLs.
+   */
+  private url(method: string, params: Record<string, string> = {}): string {
+    const salt = Math.random().toString(36).substr(2, 10);
+    const query = new URLSearchParams({
+      ...params,
+      u: this.config.username,
+      t: md5(this.config.password + salt),
+      s: salt,
+      v: API_VERSION,
+      c: CLIENT_NAME,
+      f: 'json',
+    });
+    return `${this.config.url.replace(/\/$/, '')}/rest/${method}?${query}`;
+  }
+
+  private coverUrl(coverArtId: string): string {
+    return this.url('getCoverArt', {
+      id: coverArtId,
+      ...(this.config.coverSize ? { size: String(this.config.coverSize) } : {}),
+    });
+  }
+}
@@ -0,0 +1,66 @@
+// Served next to index.html (from public/)
+const WORKER_URL = 'webdav-auth-sw.js';
+// How long to wait for each step of the worker setup
+const SETUP_TIMEOUT = 5000;
+
+/**
+ * Let audio and image elements load files below a WebDAV folder directly
+ *
+ * Registers a Service Worker that adds the Authorization header to their requests, so audio
+ * streams with Range requests instead of being downloaded first.
+ *
+ * @param prefix - URL of the folder (with trailing slash)
+ * @param authorization - Authorization header value
+ * @returns false if Service Workers are unavailable (plain http, private windows in some
+ *   browsers, or a hard reload, which bypasses the worker)
+ */
+export async function registerAuthWorker(prefix: string, authorization: string): Promise<boolean> {
+  if (!('serviceWorker' in navigator)) {
+    return false;
+  }
+
+  try {
+    await navigator.serviceWorker.register(new URL(WORKER_URL, document.baseURI).href);
+    const registration = await withTimeout(navigator.serviceWorker.ready, 'activation');
+    await withTimeout(pageControlled(), 'taking control of the page');
+    await withTimeout(sendCredentials(registration.active!, prefix, authorization), 'registering credentials');
+    console.log('[WebDAV] Streaming through the auth Service Worker');
+    return true;
+  } catch (error) {
+    console.warn('[WebDAV] Auth Service Worker not available, files will be downloaded before playback:', error);
+    return false;
+  }
+}
+
+function pageControlled(): Promise<void> {
+  if (navigator.serviceWorker.controller) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    navigator.serviceWorker.addEventListener('controllerchange', () => resolve(), { once: true });
+  });
+}
+
+function sendCredentials(worker: ServiceWorker, prefix: string, authorization: string): Promise<void> {
+  return new Promise((resolve) => {
+    const channel = new MessageChannel();
+    channel.port1.onmessage = () => resolve();
+    worker.postMessage({ type: 'webdav-auth', prefix, authorization }, [channel.port2]);
+  });
+}
+
+function withTimeout<T>(promise: Promise<T>, step: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(`Timed out waiting for ${step}`)), SETUP_TIMEOUT);
+    promise.then(
+      (value) => {
+        clearTimeout(timeout);
+        resolve(value);
+      },
+      (error) => {
+        clearTimeout(timeout);
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,153 @@
+import { LocalProgress } from '../local-progress.js';
+
+interface StoredProgress extends LocalProgress {
+  lastUpdated: number;
+}
+
+type ProgressEntries = Record<string, StoredProgress>;
+
+/**
+ * Makes an authenticated request to the WebDAV server
+ */
+export type WebDavRequest = (url: string, init?: RequestInit) => Promise<Response>;
+
+// Attempts to write the file when another device changed it in between
+const MAX_WRITE_ATTEMPTS = 3;
+
+/**
+ * Persists resume positions in a JSON file on the WebDAV share, so they follow the
+ * user across devices. Same interface as LocalProgressStore, but writes are async.
+ *
+ * All entries are kept in memory after refresh(). Every change reads the current file,
+ * applies just that change and writes it back conditionally (If-Match), so changes made
+ * by other devices in the meantime aren't overwritten.
+ */
+export class WebDavProgressFile {
+  private entries: ProgressEntries = {};
+  private writes: Promise<boolean> = Promise.resolve(true);
+
+  /**
+   * @param url - URL of the JSON file
+   * @param request - Authenticated fetch
+   */
+  constructor(
+    private url: string,
+    private request: WebDavRequest
+  ) {}
+
+  /**
+   * Load the current file contents (a missing file counts as empty)
+   */
+  async refresh(): Promise<void> {
+    const latest = await this.fetchLatest();
+    if (latest) {
+      this.entries = latest.entries;
+    }
+  }
+
+  load(episodeId: string): LocalProgress | null {
+    const entry = this.entries[episodeId];
+    if (!entry) return null;
+
+    return {
+      currentTime: entry.currentTime || 0,
+      duration: entry.duration || 0,
+      isFinished: entry.isFinished === true,
+    };
+  }
+
+  save(episodeId: string, currentTime: number, duration: number, isFinished = false): Promise<boolean> {
+    return this.update(episodeId, { currentTime, duration, isFinished, lastUpdated: Date.now() });
+  }
+
+  /**
+   * Mark an episode as finished (resumes from the beginning) or not finished (keeps its position)
+   */
+  setFinished(episodeId: string, finished: boolean): Promise<boolean> {
+    const saved = this.load(episodeId);
+    return finished
+      ? this.save(episodeId, 0, saved?.duration ?? 0, true)
+      : this.save(episodeId, saved?.currentTime ?? 0, saved?.duration ?? 0, false);
+  }
+
+  remove(episodeId: string): Promise<boolean> {
+    return this.update(episodeId, null);
+  }
+
+  private update(episodeId: string, entry: StoredProgress | null): Promise<boolean> {
+    applyEntry(this.entries, episodeId, entry);
+
+    // One write at a time, in order - otherwise they'd keep invalidating each other's ETag
+    this.writes = this.writes.then(() => this.write(episodeId, entry));
+    return this.writes;
+  }
+
+  private async write(episodeId: string, entry: StoredProgress | null): Promise<boolean> {
+    for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+      try {
+        const latest = await this.fetchLatest();
+        if (!latest) return false;
+
+        applyEntry(latest.entries, episodeId, entry);
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (latest.etag) {
+          headers['If-Match'] = latest.etag;
+        }
+
+        const response = await this.request(this.url, {
+          method: 'PUT',
+          headers,
+          body: JSON.stringify(latest.entries, null, 2),
+        });
+
+        if (response.status === 412) {
+          // Written by another device since we read it - merge again
+          console.log('[WebDAV] Progress file changed concurrently, retrying');
+          continue;
+        }
+        if (!response.ok) {
+          console.error(`[WebDAV] Failed to write progress file: ${response.status}`);
+          return false;
+        }
+        return true;
+      } catch (error) {
+        console.error('[WebDAV] Error writing progress file:', error);
+        return false;
+      }
+    }
+
+    console.error('[WebDAV] Gave up writing progress file after repeated conflicts');
+    return false;
+  }
+
+  private async fetchLatest(): Promise<{ entries: ProgressEntries; etag: string | null } | null> {
+    try {
+      const response = await this.request(this.url, { cache: 'no-store' });
+      if (response.status === 404) {
+        return { entries: {}, etag: null };
+      }
+      if (!response.ok) {
+        console.error(`[WebDAV] Failed to read progress file: ${response.status}`);
+        return null;
+      }
+
+      return {
+        entries: await response.json(),
+        // Only readable if the server exposes it via CORS - otherwise the last writer wins
+        etag: response.headers.get('ETag'),
+      };
+    } catch (error) {
+      console.error('[WebDAV] Error reading progress file:', error);
+      return null;
+    }
+  }
+}
+
+function applyEntry(entries: ProgressEntries, episodeId: string, entry: StoredProgress | null): void {
+  if (entry) {
+    entries[episodeId] = entry;
+  } else {
+    delete entries[episodeId];
+  }
+}
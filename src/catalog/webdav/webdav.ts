@@ -0,0 +1,401 @@
+import {
+  Show,
+  MediaRepository,
+  PlaybackSession,
+  CatalogChange,
+  CatalogChangeListener,
+} from '../media-repository.js';
+import { LocalProgressStore } from '../local-progress.js';
+import { mapWithConcurrency } from '../concurrency.js';
+import { RepositoryError, NotFoundError, ServerError, fetchOrThrow, toRepositoryError } from '../repository-error.js';
+import { WebDavProgressFile } from './webdav-progress.js';
+import { registerAuthWorker } from './auth-worker.js';
+
+export interface WebDavConfig {
+  /**
+   * URL of the folder whose subfolders are shown
+   * (e.g. "https://cloud.example.com/remote.php/dav/files/alice/Audiobooks" for Nextcloud)
+   */
+  url: string;
+  /** Optional credentials for HTTP Basic authentication */
+  username?: string;
+  password?: string;
+  /**
+   * Where resume positions are kept: 'local' (this browser, default) or 'server'
+   * (a JSON file in the root folder, shared by all devices - requires write access)
+   */
+  progressStorage?: 'local' | 'server';
+  /** Name of the progress file in the root folder (default: ".xmb-progress.json") */
+  progressFile?: string;
+}
+
+const DAV_NS = 'DAV:';
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop>
+    <d:resourcetype/>
+    <d:getcontenttype/>
+  </d:prop>
+</d:propfind>`;
+
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'm4b', 'aac', 'ogg', 'oga', 'opus', 'flac', 'wav', 'webm'];
+const COVER_NAMES = ['cover.jpg', 'folder.jpg', 'cover.png', 'folder.png'];
+const DEFAULT_ICON = '📁';
+const MAX_CONCURRENT_REQUESTS = 4;
+
+/**
+ * A file or folder listed by PROPFIND
+ */
+interface DavResource {
+  url: string;
+  name: string; // decoded, without trailing slash
+  isCollection: boolean;
+  contentType?: string;
+}
+
+/**
+ * Internal representation of a WebDAV episode (an audio file)
+ */
+interface WebDavEpisode {
+  id: string;
+  title: string;
+  url: string;
+}
+
+/**
+ * Internal representation of a WebDAV show (a subfolder of the root)
+ */
+interface WebDavShow {
+  id: string;
+  title: string;
+  icon: string;
+  /** URL of cover.jpg/folder.jpg, if the folder has one */
+  coverUrl?: string;
+  episodes: WebDavEpisode[];
+}
+
+/**
+ * WebDAV implementation of MediaRepository
+ *
+ * Lists the root folder with PROPFIND; every subfolder containing audio files becomes a
+ * show, with the audio files (sorted by name) as episodes and cover.jpg/folder.jpg as icon.
+ * Only standard WebDAV is used, so any server works (Nextcloud, Apache mod_dav, rclone, ...).
+ *
+ * Audio and image elements can't send an Authorization header, so with credentials
+ * configured a Service Worker adds it to their requests (see auth-worker.ts) and files
+ * stream as without credentials. Only where Service Workers aren't available, audio files
+ * are downloaded completely before playback and covers are downloaded after the catalog
+ * has loaded - a last resort, since large files take long and stay in memory.
+ */
+export class WebDavRepository implements MediaRepository {
+  private shows = new Map<string, WebDavShow>();
+  private progress: LocalProgressStore | WebDavProgressFile;
+  // Object URLs of downloaded audio files, per session
+  private playbackUrls = new Map<string, string>();
+  private listeners = new Set<CatalogChangeListener>();
+  private rootUrl: string;
+  // Whether audio and image elements can load share URLs themselves (set up on first use)
+  private directAccess: Promise<boolean> | null = null;
+
+  constructor(private config: WebDavConfig) {
+    this.rootUrl = config.url.endsWith('/') ? config.url : `${config.url}/`;
+    this.progress = config.progressStorage === 'server'
+      ? new WebDavProgressFile(
+        new URL(config.progressFile ?? '.xmb-progress.json', this.rootUrl).href,
+        (url, init) => this.request(url, init)
+      )
+      : new LocalProgressStore(`webdav:${this.rootUrl}`, '[WebDAV]');
+  }
+
+  async getCatalog(): Promise<Show[]> {
+    const root = await this.propfind(this.rootUrl);
+
+    if (this.progress instanceof WebDavProgressFile) {
+      await this.progress.refresh();
+    }
+
+    // Hidden folders (e.g. ".Trash") are skipped
+    const folders = root.filter((resource) => resource.isCollection && !resource.name.startsWith('.'));
+    const errors: RepositoryError[] = [];
+    const internalShows = await mapWithConcurrency(folders, MAX_CONCURRENT_REQUESTS, async (folder) => {
+      try {
+        return await this.loadShow(folder);
+      } catch (error) {
+        console.error(`[WebDAV] Failed to load folder ${folder.name}:`, error);
+        errors.push(toRepositoryError(error, `Loading folder ${folder.name}`));
+        return null;
+      }
+    });
+
+    const shows: Show[] = [];
+    for (const internalShow of internalShows) {
+      if (!internalShow) continue;
+
+      this.setShow(internalShow);
+      console.log(`[WebDAV] Loaded folder: ${internalShow.title} with ${internalShow.episodes.length} episodes`);
+      shows.push(this.toShow(internalShow));
+    }
+
+    // Folders that failed are left out - unless none could be loaded at all
+    if (shows.length === 0 && errors.length > 0) {
+      throw errors[0];
+    }
+
+    if (!(await this.canLoadDirectly())) {
+      // Not awaited - covers show up as they arrive
+      this.downloadCovers();
+    }
+    return shows;
+  }
+
+  private setShow(show: WebDavShow): void {
+    const previous = this.shows.get(show.id);
+    if (previous?.icon.startsWith('blob:')) {
+      if (previous.coverUrl === show.coverUrl) {
+        // Same cover - keep the downloaded copy
+        show.icon = previous.icon;
+      } else {
+        URL.revokeObjectURL(previous.icon);
+      }
+    }
+    this.shows.set(show.id, show);
+  }
+
+  private toShow(show: WebDavShow): Show {
+    return {
+      id: show.id,
+      title: show.title,
+      icon: show.icon,
+      episodes: show.episodes.map((ep) => {
+        const saved = this.progress.load(ep.id);
+        return {
+          id: ep.id,
+          title: ep.title,
+          progress: saved && saved.duration > 0 ? saved.currentTime / saved.duration : undefined,
+          isFinished: saved?.isFinished,
+        };
+      }),
+      currentEpisodeId: show.episodes[0]?.id || '',
+    };
+  }
+
+  /**
+   * Download the covers that aren't downloaded yet, reporting each as a show update
+   * Only used without the auth Service Worker - otherwise covers are plain URLs.
+   */
+  private async downloadCovers(): Promise<void> {
+    const pending = [...this.shows.values()].filter((show) => show.coverUrl && !show.icon.startsWith('blob:'));
+    await mapWithConcurrency(pending, MAX_CONCURRENT_REQUESTS, async (show) => {
+      try {
+        const response = await fetchOrThrow(`Download ${show.coverUrl}`, () => this.request(show.coverUrl!));
+        const icon = URL.createObjectURL(await response.blob());
+        if (this.shows.get(show.id) !== show) {
+          // Replaced by a newer catalog in the meantime
+          URL.revokeObjectURL(icon);
+          return;
+        }
+        show.icon = icon;
+        this.emit({ type: 'show-updated', show: this.toShow(show) });
+      } catch (error) {
+        // A missing cover isn't worth more than a warning
+        console.warn(`[WebDAV] Failed to load cover of ${show.title}:`, error);
+      }
+    });
+  }
+
+  onCatalogChange(listener: CatalogChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(change: CatalogChange): void {
+    this.listeners.forEach((listener) => listener(change));
+  }
+
+  private async loadShow(folder: DavResource): Promise<WebDavShow | null> {
+    const resources = await this.propfind(folder.url);
+
+    const audioFiles = resources
+      .filter((r) => !r.isCollection && isAudio(r))
+      .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+    if (audioFiles.length === 0) return null;
+
+    const cover = resources.find((r) => COVER_NAMES.includes(r.name.toLowerCase()));
+    // Without direct access, covers are downloaded after the catalog has loaded
+    const icon = cover && (await this.canLoadDirectly()) ? cover.url : DEFAULT_ICON;
+
+    return {
+      id: folder.name,
+      title: folder.name,
+      icon,
+      coverUrl: cover?.url,
+      episodes: audioFiles.map((file) => ({
+        id: `${folder.name}/${file.name}`,
+        title: file.name.replace(/\.[^.]+$/, ''),
+        url: file.url,
+      })),
+    };
+  }
+
+  /**
+   * List a folder's direct children (the folder itself is left out)
+   */
+  private async propfind(url: string): Promise<DavResource[]> {
+    const response = await fetchOrThrow(`PROPFIND ${url}`, () => this.request(url, {
+      method: 'PROPFIND',
+      headers: {
+        Depth: '1',
+        'Content-Type': 'application/xml; charset=utf-8',
+      },
+      body: PROPFIND_BODY,
+    }));
+
+    const doc = new DOMParser().parseFromString(await response.text(), 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new ServerError(`PROPFIND ${url} returned invalid XML`);
+    }
+
+    const folderPath = normalizePath(new URL(url).pathname);
+    const resources: DavResource[] = [];
+
+    for (const entry of Array.from(doc.getElementsByTagNameNS(DAV_NS, 'response'))) {
+      const href = entry.getElementsByTagNameNS(DAV_NS, 'href')[0]?.textContent?.trim();
+      if (!href) continue;
+
+      const resourceUrl = new URL(href, url);
+      const path = normalizePath(resourceUrl.pathname);
+      if (path === folderPath) continue;
+
+      resources.push({
+        url: resourceUrl.href,
+        name: path.slice(path.lastIndexOf('/') + 1),
+        isCollection: entry.getElementsByTagNameNS(DAV_NS, 'collection').length > 0,
+        contentType: entry.getElementsByTagNameNS(DAV_NS, 'getcontenttype')[0]?.textContent?.trim() || undefined,
+      });
+    }
+
+    return resources;
+  }
+
+  private request(url: string, init: RequestInit = {}): Promise<Response> {
+    if (!this.config.username) {
+      return fetch(url, init);
+    }
+
+    return fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: this.authorization(),
+      },
+    });
+  }
+
+  private authorization(): string {
+    const { username, password } = this.config;
+    // btoa() only takes Latin-1, so encode as UTF-8 first
+    return `Basic ${btoa(String.fromCharCode(...new TextEncoder().encode(`${username}:${password ?? ''}`)))}`;
+  }
+
+  /**
+   * Whether audio and image elements can load share URLs themselves - always without
+   * credentials, otherwise only with the auth Service Worker
+   */
+  private canLoadDirectly(): Promise<boolean> {
+    if (!this.directAccess) {
+      this.directAccess = this.config.username
+        ? registerAuthWorker(this.rootUrl, this.authorization())
+        : Promise.resolve(true);
+    }
+    return this.directAccess;
+  }
+
+  /**
+   * URL an audio element can play - the file itself, or as a last resort (no Service
+   * Worker) an object URL of the completely downloaded file
+   */
+  private async mediaUrl(url: string): Promise<string> {
+    if (await this.canLoadDirectly()) {
+      return url;
+    }
+
+    const response = await fetchOrThrow(`Download ${url}`, () => this.request(url));
+    return URL.createObjectURL(await response.blob());
+  }
+
+  async startPlayback(showId: string, episodeId: string): Promise<PlaybackSession> {
+    const episode = this.shows.get(showId)?.episodes.find((ep) => ep.id === episodeId);
+    if (!episode) {
+      throw new NotFoundError(`Episode not found: ${showId} / ${episodeId}`);
+    }
+
+    const savedProgress = this.progress.load(episodeId);
+    const startTime = savedProgress?.currentTime || 0;
+
+    console.log(`[WebDAV] Begin playback: ${episodeId} at ${startTime.toFixed(1)}s`);
+
+    const playbackUrl = await this.mediaUrl(episode.url);
+
+    // Use episodeId as the session ID (no server-side session tracking needed)
+    const sessionId = episodeId;
+    if (playbackUrl.startsWith('blob:')) {
+      this.playbackUrls.set(sessionId, playbackUrl);
+    }
+
+    return {
+      sessionId,
+      playbackUrl,
+      startTime,
+      // Unknown until the file is loaded - the player takes it from the audio element
+      duration: savedProgress?.duration || 0,
+    };
+  }
+
+  async updateProgress(
+    sessionId: string,
+    currentTime: number,
+    duration: number,
+    _timeListened: number
+  ): Promise<void> {
+    // sessionId is the episodeId
+    const saved = await this.progress.save(sessionId, currentTime, duration);
+    // Only the progress file can fail here - localStorage errors are just logged
+    if (!saved && this.progress instanceof WebDavProgressFile) {
+      throw new ServerError('Failed to write progress file');
+    }
+  }
+
+  async endPlayback(sessionId: string): Promise<void> {
+    const playbackUrl = this.playbackUrls.get(sessionId);
+    if (playbackUrl) {
+      URL.revokeObjectURL(playbackUrl);
+      this.playbackUrls.delete(sessionId);
+    }
+    console.log(`[WebDAV] End playback session: ${sessionId}`);
+  }
+
+  async markFinished(_showId: string, episodeId: string, finished: boolean): Promise<boolean> {
+    console.log(`[WebDAV] Mark ${episodeId} as ${finished ? 'finished' : 'not finished'}`);
+    return this.progress.setFinished(episodeId, finished);
+  }
+
+  async resetProgress(_showId: string, episodeId: string): Promise<boolean> {
+    console.log(`[WebDAV] Reset progress: ${episodeId}`);
+    return this.progress.remove(episodeId);
+  }
+}
+
+/**
+ * Decoded path without trailing slash, so hrefs from different servers compare equal
+ */
+function normalizePath(pathname: string): string {
+  return decodeURIComponent(pathname).replace(/\/+$/, '');
+}
+
+function isAudio(resource: DavResource): boolean {
+  if (resource.contentType?.startsWith('audio/')) return true;
+  const extension = resource.name.slice(resource.name.lastIndexOf('.') + 1).toLowerCase();
+  return AUDIO_EXTENSIONS.includes(extension);
+}
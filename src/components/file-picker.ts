@@ -0,0 +1,200 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, query, state } from 'lit/decorators.js';
+import {
+  LocalFile,
+  supportsDirectoryPicker,
+  pickDirectory,
+  loadSavedDirectory,
+  reopenDirectory,
+  filesFromFileList,
+  filesFromDataTransfer,
+} from '../catalog/local/local-file-sources.js';
+
+/**
+ * Full-screen prompt to choose local audio files - a folder, single files, or files
+ * and folders dropped onto it
+ *
+ * @fires files-selected - Fired with the chosen files. Detail: LocalFile[]
+ */
+@customElement('file-picker')
+export class FilePicker extends LitElement {
+  /** Error message from the last attempt */
+  @property({ type: String }) error = '';
+
+  @state() private savedDirectory: FileSystemDirectoryHandle | null = null;
+  @state() private dragging = false;
+  @state() private busy = false;
+
+  @query('#folder-input') private folderInput!: HTMLInputElement;
+  @query('#files-input') private filesInput!: HTMLInputElement;
+
+  static styles = css`
+    :host {
+      position: fixed;
+      inset: 0;
+      z-index: 2000;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: #000;
+      color: rgba(255, 255, 255, 0.9);
+    }
+
+    .panel {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      width: min(320px, 80vw);
+      padding: 24px;
+      border: 2px dashed rgba(255, 255, 255, 0.15);
+      border-radius: 12px;
+      text-align: center;
+    }
+
+    .panel.dragging {
+      border-color: rgba(37, 99, 235, 0.95);
+      background: rgba(37, 99, 235, 0.1);
+    }
+
+    button {
+      padding: 10px 12px;
+      font-size: 16px;
+      font-weight: 700;
+      border: none;
+      border-radius: 8px;
+      background: rgba(37, 99, 235, 0.95);
+      color: white;
+      cursor: pointer;
+    }
+
+    button.secondary {
+      background: rgba(255, 255, 255, 0.08);
+    }
+
+    button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+
+    input {
+      display: none;
+    }
+
+    .hint {
+      font-size: 14px;
+      color: rgba(255, 255, 255, 0.6);
+    }
+
+    .error {
+      color: #f87171;
+      font-size: 14px;
+    }
+  `;
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    if (supportsDirectoryPicker()) {
+      loadSavedDirectory().then((handle) => (this.savedDirectory = handle));
+    }
+  }
+
+  private async _select(load: () => Promise<LocalFile[] | null>): Promise<void> {
+    if (this.busy) return;
+    this.busy = true;
+    this.error = '';
+
+    const files = await load();
+    this.busy = false;
+
+    if (!files) return;
+    if (files.length === 0) {
+      this.error = 'No files found';
+      return;
+    }
+    this.dispatchEvent(new CustomEvent<LocalFile[]>('files-selected', { detail: files }));
+  }
+
+  private _handleChooseFolder(): void {
+    if (supportsDirectoryPicker()) {
+      this._select(pickDirectory);
+    } else {
+      this.folderInput.click();
+    }
+  }
+
+  private _handleInputChange(e: Event): void {
+    const input = e.target as HTMLInputElement;
+    if (input.files) {
+      const files = filesFromFileList(input.files);
+      this._select(async () => files);
+    }
+    input.value = '';
+  }
+
+  private _handleDragOver(e: DragEvent): void {
+    e.preventDefault();
+    this.dragging = true;
+  }
+
+  private _handleDrop(e: DragEvent): void {
+    e.preventDefault();
+    this.dragging = false;
+    if (e.dataTransfer) {
+      // Read the DataTransfer synchronously - it is emptied once the handler returns
+      const files = filesFromDataTransfer(e.dataTransfer);
+      this._select(() => files);
+    }
+  }
+
+  render() {
+    const savedDirectory = this.savedDirectory;
+
+    return html`
+      <div
+        class="panel ${this.dragging ? 'dragging' : ''}"
+        @dragover=${this._handleDragOver}
+        @dragleave=${() => (this.dragging = false)}
+        @drop=${this._handleDrop}
+      >
+        ${savedDirectory
+          ? html`<button ?disabled=${this.busy} @click=${() => this._select(() => reopenDirectory(savedDirectory))}>
+              Open ${savedDirectory.name}
+            </button>`
+          : ''}
+        <button
+          class=${savedDirectory ? 'secondary' : ''}
+          ?disabled=${this.busy}
+          @click=${this._handleChooseFolder}
+        >Choose folder</button>
+        <button class="secondary" ?disabled=${this.busy} @click=${() => this.filesInput.click()}>
+          Choose files
+        </button>
+        <div class="hint">or drop files or folders here</div>
+        ${this.error ? html`<div class="error">${this.error}</div>` : ''}
+        <input id="folder-input" type="file" webkitdirectory multiple @change=${this._handleInputChange} />
+        <input id="files-input" type="file" accept="audio/*" multiple @change=${this._handleInputChange} />
+      </div>
+    `;
+  }
+}
+
+/**
+ * Show the file picker until the user has chosen files
+ */
+export function showFilePicker(): Promise<LocalFile[]> {
+  const picker = document.createElement('file-picker');
+  document.body.appendChild(picker);
+
+  return new Promise((resolve) => {
+    picker.addEventListener('files-selected', (e: Event) => {
+      picker.remove();
+      resolve((e as CustomEvent<LocalFile[]>).detail);
+    });
+  });
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'file-picker': FilePicker;
+  }
+}
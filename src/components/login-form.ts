@@ -0,0 +1,159 @@
+import { LitElement, html, css } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+/**
+ * Credentials submitted by the login form
+ */
+export interface LoginDetail {
+  username: string;
+  password: string;
+}
+
+/**
+ * Full-screen login form for backends that authenticate with username and password
+ *
+ * @fires login - Fired when the form is submitted. Detail: { username, password }
+ */
+@customElement('login-form')
+export class LoginForm extends LitElement {
+  /** Shown above the form so it's clear which server the credentials are for */
+  @property({ type: String }) serverName = '';
+  /** Error message from the last attempt */
+  @property({ type: String }) error = '';
+  /** Disables the form while a login attempt is in progress */
+  @property({ type: Boolean }) busy = false;
+
+  @state() private username = '';
+  @state() private password = '';
+
+  static styles = css`
+    :host {
+      position: fixed;
+      inset: 0;
+      z-index: 2000;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: #000;
+      color: rgba(255, 255, 255, 0.9);
+    }
+
+    form {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      width: min(320px, 80vw);
+    }
+
+    .server {
+      font-size: 14px;
+      color: rgba(255, 255, 255, 0.6);
+      text-align: center;
+      word-break: break-all;
+    }
+
+    input {
+      padding: 10px 12px;
+      font-size: 16px;
+      border-radius: 8px;
+      border: 2px solid rgba(255, 255, 255, 0.15);
+      background: rgba(255, 255, 255, 0.08);
+      color: inherit;
+    }
+
+    button {
+      padding: 10px 12px;
+      font-size: 16px;
+      font-weight: 700;
+      border: none;
+      border-radius: 8px;
+      background: rgba(37, 99, 235, 0.95);
+      color: white;
+      cursor: pointer;
+    }
+
+    button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+
+    .error {
+      color: #f87171;
+      font-size: 14px;
+      text-align: center;
+    }
+  `;
+
+  private _handleSubmit(e: Event): void {
+    e.preventDefault();
+    if (this.busy || !this.username) return;
+
+    this.dispatchEvent(new CustomEvent<LoginDetail>('login', {
+      detail: { username: this.username, password: this.password },
+    }));
+  }
+
+  render() {
+    return html`
+      <form @submit=${this._handleSubmit}>
+        <div class="server">${this.serverName}</div>
+        <input
+          type="text"
+          autocomplete="username"
+          placeholder="Username"
+          .value=${this.username}
+          @input=${(e: Event) => (this.username = (e.target as HTMLInputElement).value)}
+          ?disabled=${this.busy}
+        />
+        <input
+          type="password"
+          autocomplete="current-password"
+          placeholder="Password"
+          .value=${this.password}
+          @input=${(e: Event) => (this.password = (e.target as HTMLInputElement).value)}
+          ?disabled=${this.busy}
+        />
+        <button type="submit" ?disabled=${this.busy || !this.username}>Log in</button>
+        ${this.error ? html`<div class="error">${this.error}</div>` : ''}
+      </form>
+    `;
+  }
+}
+
+/**
+ * Show a login form until the given login function succeeds
+ * @param serverName - Displayed above the form
+ * @param login - Attempts a login, resolving to true on success
+ */
+export function showLoginForm(
+  serverName: string,
+  login: (username: string, password: string) => Promise<boolean>
+): Promise<void> {
+  const form = document.createElement('login-form');
+  form.serverName = serverName;
+  document.body.appendChild(form);
+
+  return new Promise((resolve) => {
+    form.addEventListener('login', async (e: Event) => {
+      const { username, password } = (e as CustomEvent<LoginDetail>).detail;
+      form.busy = true;
+      form.error = '';
+
+      const success = await login(username, password);
+      form.busy = false;
+
+      if (success) {
+        form.remove();
+        resolve();
+      } else {
+        form.error = 'Login failed - check username and password';
+      }
+    });
+  });
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'login-form': LoginForm;
+  }
+}
@@ -0,0 +1,70 @@
+import { LitElement, html, css } from 'lit';
+import { customElement } from 'lit/decorators.js';
+
+/**
+ * Logout button component, shown next to the fullscreen button
+ * Only added to the page when a backend logs in with username and password.
+ *
+ * @fires logout - Fired when the button is clicked
+ */
+@customElement('logout-button')
+export class LogoutButton extends LitElement {
+  static styles = css`
+    :host {
+      display: block;
+      position: fixed;
+      top: 0;
+      right: 50px;
+      z-index: 1000;
+    }
+
+    .logout-button {
+      width: 50px;
+      height: 50px;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      cursor: pointer;
+      transition: all 0.2s ease;
+    }
+
+    .logout-button:hover {
+      background: rgba(0, 0, 0, 0.5);
+      transform: scale(1.05);
+    }
+
+    .logout-button svg {
+      width: 25px;
+      height: 25px;
+      fill: rgba(255, 255, 255, 0.6);
+    }
+  `;
+
+  private _handleClick = (e: Event): void => {
+    e.stopPropagation();
+    e.preventDefault();
+    this.dispatchEvent(new CustomEvent('logout'));
+  };
+
+  render() {
+    return html`
+      <div
+        class="logout-button"
+        @click=${this._handleClick}
+        title="Log out"
+      >
+        <svg viewBox="0 0 24 24">
+          <path
+            d="M10.09 15.59 11.5 17l5-5-5-5-1.41 1.41L12.67 11H3v2h9.67l-2.58 2.59zM19 3H5a2 2 0 0 0-2 2v4h2V5h14v14H5v-4H3v4a2 2 0 0 0 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2z"
+          />
+        </svg>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'logout-button': LogoutButton;
+  }
+}
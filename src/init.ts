@@ -3,10 +3,27 @@
 
 import './app/podcast-player.js';
 import './components/fullscreen-button.js';
+import './components/logout-button.js';
+import { showLoginForm } from './components/login-form.js';
+import { showFilePicker } from './components/file-picker.js';
 import { MediaRepository } from './catalog/media-repository.js';
 import { AudiobookshelfRepository } from './catalog/audiobookshelf/audiobookshelf.js';
+import { AbsAuth } from './catalog/audiobookshelf/abs-auth.js';
 import { SampleRepository } from './catalog/sample/sample-repository.js';
 import { ArchiveOrgRepository } from './catalog/archiveorg/archiveorg.js';
+import { JellyfinRepository } from './catalog/jellyfin/jellyfin.js';
+import { RssFeedRepository } from './catalog/rss/rss.js';
+import { ManifestRepository } from './catalog/manifest/manifest.js';
+import { LocalFilesRepository } from './catalog/local/local-files.js';
+import { WebDavRepository } from './catalog/webdav/webdav.js';
+import { HomeAssistantRepository } from './catalog/homeassistant/homeassistant.js';
+import { PlexRepository } from './catalog/plex/plex.js';
+import { SubsonicRepository } from './catalog/subsonic/subsonic.js';
+import { filesFromDataTransfer } from './catalog/local/local-file-sources.js';
+import { CompositeRepository } from './catalog/composite/composite-repository.js';
+import { CachingRepository } from './catalog/caching/caching-repository.js';
+import { XMB_COMPUTED } from './xmb/xmb-config.js';
+import type { RepositoryConfig } from '../config.js';
 
 // Dynamic import to prevent Vite from bundling config.js
 // In dev: config.js is in project root, Vite serves it directly
@@ -16,23 +33,110 @@ const configPath = import.meta.env.DEV
   : new URL('./config.js', document.baseURI).href;
 const { config } = await import(/* @vite-ignore */ configPath);
 
+// Backends logged in with username and password - offered a logout button
+const logins: AbsAuth[] = [];
+
 // Create repository based on config
+async function createRepository(repositoryConfig: RepositoryConfig): Promise<MediaRepository> {
+  switch (repositoryConfig.type) {
+    case 'audiobookshelf': {
+      const { url, apiKey } = repositoryConfig.config;
+      const auth = new AbsAuth(url, apiKey);
+      if (auth.usesLogin()) {
+        logins.push(auth);
+        if (!auth.isLoggedIn()) {
+          await showLoginForm(url, (username, password) => auth.login(username, password));
+        }
+      }
+      return new AudiobookshelfRepository(
+        { coverSize: XMB_COMPUTED.coverSize, ...repositoryConfig.config },
+        auth
+      );
+    }
+    case 'archiveorg':
+      return new ArchiveOrgRepository(repositoryConfig.config);
+    case 'jellyfin':
+      return new JellyfinRepository(repositoryConfig.config);
+    case 'rss':
+      return new RssFeedRepository(repositoryConfig.config);
+    case 'plex':
+      return new PlexRepository({ coverSize: XMB_COMPUTED.coverSize, ...repositoryConfig.config });
+    case 'subsonic':
+      return new SubsonicRepository({ coverSize: XMB_COMPUTED.coverSize, ...repositoryConfig.config });
+    case 'webdav':
+      return new WebDavRepository(repositoryConfig.config);
+    case 'homeassistant':
+      return new HomeAssistantRepository(repositoryConfig.config);
+    case 'manifest':
+      return new ManifestRepository(repositoryConfig.config);
+    case 'local': {
+      const localRepository = new LocalFilesRepository(await showFilePicker(), repositoryConfig.config);
+      // Files dropped onto the page later are added to the catalog
+      document.addEventListener('dragover', (e) => e.preventDefault());
+      document.addEventListener('drop', (e) => {
+        e.preventDefault();
+        if (e.dataTransfer) {
+          filesFromDataTransfer(e.dataTransfer)
+            .then((files) => localRepository.addFiles(files))
+            .catch((error) => {
+              console.error('[Local Files] Failed to add dropped files:', error);
+              // Looked up here - the player isn't set up yet while other backends are created
+              document.querySelector('podcast-player')?.showError('Dropped files could not be added', error);
+            });
+        }
+      });
+      return localRepository;
+    }
+    case 'sample':
+      return new SampleRepository();
+    default:
+      throw new Error(`Unknown repository type: ${(repositoryConfig as any).type}`);
+  }
+}
+
+// Credentials never end up in the cache key - it is stored in IndexedDB as is, and a
+// rotated token shouldn't throw the cached catalog away
+const CREDENTIAL_KEYS = ['apiKey', 'token', 'password', 'accessToken'];
+
+/**
+ * What identifies a backend's catalog: its type and the non-secret options
+ * (URL, library/folder IDs, filters)
+ */
+function catalogCacheKey(repositoryConfig: RepositoryConfig): unknown {
+  const options = Object.entries(repositoryConfig.config ?? {}).filter(([key]) => !CREDENTIAL_KEYS.includes(key));
+  return { type: repositoryConfig.type, ...Object.fromEntries(options) };
+}
+
+// An array of repository configs merges all backends into one catalog
+// (created one after the other, so login forms never overlap)
 let repository: MediaRepository;
-switch (config.repository.type) {
-  case 'audiobookshelf':
-    repository = new AudiobookshelfRepository(config.repository.config);
-    break;
-  case 'archiveorg':
-    repository = new ArchiveOrgRepository(config.repository.config);
-    break;
-  case 'sample':
-    repository = new SampleRepository();
-    break;
-  default:
-    throw new Error(`Unknown repository type: ${(config.repository as any).type}`);
+if (Array.isArray(config.repository)) {
+  const repositories: MediaRepository[] = [];
+  for (const repositoryConfig of config.repository) {
+    repositories.push(await createRepository(repositoryConfig));
+  }
+  repository = new CompositeRepository(repositories);
+} else {
+  repository = await createRepository(config.repository);
+}
+
+// Optional offline-capable catalog cache (keyed by the repository config, so
+// switching backends never shows a stale catalog from another source)
+if (config.catalogCache) {
+  const repositoryConfigs = Array.isArray(config.repository) ? config.repository : [config.repository];
+  repository = new CachingRepository(repository, JSON.stringify(repositoryConfigs.map(catalogCacheKey)));
 }
 
 // Create and inject the repository and config
 const player = document.getElementById('player') as any;
 player.repository = repository;
 player.config = config.player ?? {};
+
+if (logins.length > 0) {
+  const logoutButton = document.createElement('logout-button');
+  logoutButton.addEventListener('logout', async () => {
+    await Promise.all(logins.map((auth) => auth.logout()));
+    location.reload();
+  });
+  document.body.appendChild(logoutButton);
+}
@@ -1,18 +1,26 @@
+import { mapWithConcurrency } from '../../catalog/concurrency.js';
+
 /**
  * Image preloader controller for preloading and decoding show icons
  * Runs in background without blocking UI
  */
 export class ImagePreloaderController {
+  // Decoding many images at once stalls low-powered devices
+  private static readonly MAX_CONCURRENT_DECODES = 4;
+
+  private preloadedUrls = new Set<string>();
+
   /**
    * Preload and decode images from show icons
+   * Images preloaded before are skipped, so this can be called on every catalog change.
    * @param icons - Array of icon URLs or emoji strings
    */
   preload(icons: string[]): void {
     const uniqueUrls = new Set<string>();
     
-    // Collect unique HTTP/HTTPS image URLs (skip emoji)
+    // Collect unique HTTP/HTTPS and object URLs (skip emoji)
     icons.forEach(icon => {
-      if (icon.startsWith('http')) {
+      if ((icon.startsWith('http') || icon.startsWith('blob:')) && !this.preloadedUrls.has(icon)) {
         uniqueUrls.add(icon);
       }
     });
@@ -20,17 +28,22 @@ export class ImagePreloaderController {
     if (uniqueUrls.size === 0) return;
     
     console.log(`[XMB] Preloading ${uniqueUrls.size} unique images...`);
+    uniqueUrls.forEach(url => this.preloadedUrls.add(url));
     
-    // Preload each image
-    uniqueUrls.forEach(url => {
-      const img = new Image();
-      img.decoding = 'async'; // Use async decoding
-      img.src = url;
-      
-      // Decode the image to ensure it's ready for GPU
-      img.decode().catch(err => {
-        console.warn(`[XMB] Failed to decode image: ${url}`, err);
-      });
-    });
+    // Preload each image, a few at a time
+    mapWithConcurrency(
+      [...uniqueUrls],
+      ImagePreloaderController.MAX_CONCURRENT_DECODES,
+      async (url) => {
+        const img = new Image();
+        img.decoding = 'async'; // Use async decoding
+        img.src = url;
+        
+        // Decode the image to ensure it's ready for GPU
+        await img.decode().catch(err => {
+          console.warn(`[XMB] Failed to decode image: ${url}`, err);
+        });
+      }
+    );
   }
 }
@@ -218,12 +218,13 @@ export class InputController {
   };
 
   private _onDragStart(x: number, y: number, e?: MouseEvent | TouchEvent): void {
-    // Check if clicking on circular progress - let it handle its own events
+    // Check if clicking on circular progress or the episode menu - let them handle their own events
     if (e) {
       const path = e.composedPath();
       const isCircularProgress = path.some(el => (el as HTMLElement).classList?.contains('circular-progress'));
+      const isEpisodeActions = path.some(el => (el as HTMLElement).classList?.contains('episode-actions'));
 
-      if (isCircularProgress) {
+      if (isCircularProgress || isEpisodeActions) {
         return;
       }
     }
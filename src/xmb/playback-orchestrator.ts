@@ -1,4 +1,12 @@
-import { MediaRepository, PlaybackSession } from '../catalog/media-repository.js';
+import { EpisodeProgress, MediaRepository, PlaybackSession } from '../catalog/media-repository.js';
+import {
+  RepositoryError,
+  NetworkError,
+  ServerError,
+  UnsupportedFormatError,
+  describeError,
+  toRepositoryError,
+} from '../catalog/repository-error.js';
 import type { XmbBrowser } from './xmb-browser.js';
 
 /**
@@ -31,6 +39,9 @@ export interface PlaybackState {
   // Progress
   progress: number; // 0-1
   duration: number; // seconds
+  
+  // Why the episode couldn't be loaded or played (system === 'error')
+  error: RepositoryError | null;
 }
 
 /**
@@ -51,6 +62,7 @@ export interface EpisodeChangedEventDetail {
  * - Coordinates episode loading from repository
  * - Handles auto-advance between episodes
  * - Syncs progress to repository
+ * - Shows load, playback and sync errors; play retries a failed episode
  * - Emits events for state changes and episode changes
  * 
  * Does NOT:
@@ -75,6 +87,14 @@ export class PlaybackOrchestrator extends EventTarget {
   private userIntent: UserIntent = null;
   private systemState: SystemState = 'ready';
   
+  // Error tracking: why the system is in 'error' state, and the last failed sync
+  // (syncs are retried with the next one, so playback continues)
+  private lastError: RepositoryError | null = null;
+  private syncError: RepositoryError | null = null;
+  
+  // Last requested episode - reloaded when play is requested in 'error' state
+  private lastLoadRequest: { showId: string; episodeId: string; showTitle: string; episodeTitle: string } | null = null;
+  
   // Session tracking
   private currentSession: PlaybackSession | null = null;
   private currentShowId: string | null = null;
@@ -85,6 +105,12 @@ export class PlaybackOrchestrator extends EventTarget {
   private lastSyncTime = 0;
   private syncThreshold = 10;
   
+  // Multi-file sessions: index into currentSession.tracks of the loaded file
+  private currentTrackIndex = 0;
+  
+  // Single-file sessions: how many of currentSession.fallbackUrls have been tried
+  private fallbackUrlsTried = 0;
+  
   // Auto-advance tracking
   private autoAdvanceTimeout: number | null = null;
 
@@ -97,6 +123,9 @@ export class PlaybackOrchestrator extends EventTarget {
     this.audio = new Audio();
     this._setupAudioListeners();
     this._setupBrowserListeners();
+
+    // Only offer the episode menu if the repository can act on it
+    this.xmbBrowser.episodeActionsEnabled = !!(mediaRepository.markFinished || mediaRepository.resetProgress);
   }
 
   /**
@@ -141,15 +170,25 @@ export class PlaybackOrchestrator extends EventTarget {
       navigationLocked: intent === 'play' || system === 'loading',
       progress,
       duration: this.currentDuration,
+      error: system === 'error' ? this.lastError : null,
     };
   }
 
   /**
    * User requests to play
+   * After an error, this retries loading the episode.
    */
   requestPlay(): void {
     console.log('[Orchestrator] User requested play');
     this._cancelAutoAdvance(); // Cancel any pending auto-advance
+    
+    if (this.systemState === 'error' && this.lastLoadRequest) {
+      const { showId, episodeId, showTitle, episodeTitle } = this.lastLoadRequest;
+      console.log('[Orchestrator] Retrying after error');
+      this.loadEpisode(showId, episodeId, showTitle, episodeTitle, 'play');
+      return;
+    }
+    
     this.userIntent = 'play';
     this._reconcile();
   }
@@ -193,8 +232,11 @@ export class PlaybackOrchestrator extends EventTarget {
     }
     // else: preserveIntent === false, clear intent (manual episode change)
     
+    this.lastLoadRequest = { showId, episodeId, showTitle, episodeTitle };
+    
     // Enter loading state
     this.systemState = 'loading';
+    this.lastError = null;
     this.userIntent = savedIntent; // Set intent (may be null, 'play', or 'pause')
     this._emitStateChange();
 
@@ -204,12 +246,6 @@ export class PlaybackOrchestrator extends EventTarget {
     try {
       // Start new session
       const session = await this.mediaRepository.startPlayback(showId, episodeId);
-      if (!session) {
-        console.error('[Orchestrator] Failed to start playback session');
-        this.systemState = 'error';
-        this._emitStateChange();
-        return false;
-      }
 
       this.currentSession = session;
       this.currentShowId = showId;
@@ -220,9 +256,7 @@ export class PlaybackOrchestrator extends EventTarget {
 
       // Load audio in orchestrator (deferred to avoid update cycle issues)
       await Promise.resolve();
-      this.audio.src = session.playbackUrl;
-      this.audio.currentTime = session.startTime;
-      this.audio.load();
+      this._loadAudioAt(session.startTime);
 
       // Emit episode-changed event for persistence
       this.dispatchEvent(new CustomEvent<EpisodeChangedEventDetail>('episode-changed', {
@@ -234,23 +268,171 @@ export class PlaybackOrchestrator extends EventTarget {
       return true;
     } catch (error) {
       console.error('[Orchestrator] Error loading episode:', error);
-      this.systemState = 'error';
-      this._emitStateChange();
+      this._enterErrorState(toRepositoryError(error, 'Loading episode'));
       return false;
     }
   }
 
+  /**
+   * Give up on the current episode until the user retries (play) or picks another one
+   * Intent is cleared, so the play button is shown and navigation is unlocked.
+   */
+  private _enterErrorState(error: RepositoryError): void {
+    this.audio.pause();
+    this.systemState = 'error';
+    this.lastError = error;
+    this.userIntent = null;
+    this._emitStateChange();
+  }
+
   /**
    * Seek to a specific progress (0-1)
    */
   seekToProgress(progress: number): void {
     if (this.currentDuration > 0) {
       const newTime = progress * this.currentDuration;
-      this.audio.currentTime = newTime;
+      const tracks = this.currentSession?.tracks;
+      
+      if (tracks && this._trackIndexAt(newTime) !== this.currentTrackIndex) {
+        // Seek into another file - load it, play intent is fulfilled on canplay
+        this.currentTime = newTime;
+        this._loadAudioAt(newTime);
+        this.systemState = 'loading';
+        this._updateXmbState();
+        return;
+      }
+      
+      this.audio.currentTime = tracks ? newTime - tracks[this.currentTrackIndex].startOffset : newTime;
       this._syncNow(); // Sync immediately after seek
     }
   }
 
+  /**
+   * Mark an episode as finished or not finished
+   * @returns true if the repository supports it and saved the change
+   */
+  markFinished(showId: string, episodeId: string, finished: boolean): Promise<boolean> {
+    const markFinished = this.mediaRepository.markFinished?.bind(this.mediaRepository);
+    if (!markFinished) {
+      console.warn('[Orchestrator] Repository does not support marking episodes as finished');
+      return Promise.resolve(false);
+    }
+
+    return this._changeProgress(
+      showId,
+      episodeId,
+      () => markFinished(showId, episodeId, finished),
+      finished ? { isFinished: true } : { isFinished: false }
+    );
+  }
+
+  /**
+   * Reset an episode's progress so it starts from the beginning
+   * @returns true if the repository supports it and saved the change
+   */
+  resetProgress(showId: string, episodeId: string): Promise<boolean> {
+    const resetProgress = this.mediaRepository.resetProgress?.bind(this.mediaRepository);
+    if (!resetProgress) {
+      console.warn('[Orchestrator] Repository does not support resetting progress');
+      return Promise.resolve(false);
+    }
+
+    return this._changeProgress(
+      showId,
+      episodeId,
+      () => resetProgress(showId, episodeId),
+      { isFinished: false, progress: 0 }
+    );
+  }
+
+  /**
+   * Apply a progress change in the repository and reflect it in the browser
+   * The loaded episode's session is closed first (so its final sync can't undo the change)
+   * and the episode is reloaded afterwards to pick up its new resume position.
+   */
+  private async _changeProgress(
+    showId: string,
+    episodeId: string,
+    change: () => Promise<boolean>,
+    patch: EpisodeProgress
+  ): Promise<boolean> {
+    const isLoaded = this.currentShowId === showId && this.currentEpisodeId === episodeId;
+
+    if (isLoaded) {
+      this._cancelAutoAdvance();
+      this.userIntent = null;
+      this.audio.pause();
+      // Still 'ready' here, so the final sync saves the position before the change
+      await this._stopSession();
+      this.systemState = 'loading';
+      this._emitStateChange();
+    }
+
+    let saved = false;
+    try {
+      saved = await change();
+    } catch (error) {
+      console.error('[Orchestrator] Error changing progress:', error);
+    }
+
+    if (saved) {
+      this.xmbBrowser.setEpisodeProgress(showId, episodeId, patch);
+    }
+
+    if (isLoaded) {
+      const show = this.xmbBrowser.shows.find((s) => s.id === showId);
+      const episode = show?.episodes.find((e) => e.id === episodeId);
+      await this.loadEpisode(showId, episodeId, show?.title ?? showId, episode?.title ?? episodeId);
+    }
+
+    return saved;
+  }
+
+  /**
+   * Point the audio element at the given position of the current session
+   * For multi-file sessions this selects the file containing the position.
+   */
+  private _loadAudioAt(time: number): void {
+    const tracks = this.currentSession?.tracks;
+    
+    if (tracks && tracks.length > 0) {
+      this.currentTrackIndex = this._trackIndexAt(time);
+      const track = tracks[this.currentTrackIndex];
+      this.audio.src = track.url;
+      this.audio.currentTime = Math.max(0, time - track.startOffset);
+    } else {
+      const session = this.currentSession!;
+      this.audio.src = this.fallbackUrlsTried > 0
+        ? session.fallbackUrls![this.fallbackUrlsTried - 1]
+        : session.playbackUrl;
+      this.audio.currentTime = time;
+    }
+    
+    this.audio.load();
+  }
+
+  /**
+   * Index of the file containing the given session time
+   */
+  private _trackIndexAt(time: number): number {
+    const tracks = this.currentSession?.tracks ?? [];
+    let index = 0;
+    tracks.forEach((track, i) => {
+      if (track.startOffset <= time) {
+        index = i;
+      }
+    });
+    return index;
+  }
+
+  /**
+   * Current position on the session timeline (across files for multi-file sessions)
+   */
+  private _getSessionTime(): number {
+    const track = this.currentSession?.tracks?.[this.currentTrackIndex];
+    return track ? track.startOffset + this.audio.currentTime : this.audio.currentTime;
+  }
+
   /**
    * Reconcile user intent with system capability
    * This is where the magic happens - no race conditions!
@@ -287,7 +469,10 @@ export class PlaybackOrchestrator extends EventTarget {
       if (this.systemState === 'loading') {
         console.log('[Orchestrator] Audio ready, transitioning to ready state');
         this.systemState = 'ready';
-        this.currentDuration = this.audio.duration;
+        // Multi-file sessions span several files - keep the session's duration
+        if (!this.currentSession?.tracks) {
+          this.currentDuration = this.audio.duration;
+        }
         this._updateXmbState();
         this._reconcile(); // Fulfill any pending play intent
       }
@@ -310,7 +495,20 @@ export class PlaybackOrchestrator extends EventTarget {
 
     // Playback position updated
     this.audio.addEventListener('timeupdate', async () => {
-      this.currentTime = this.audio.currentTime;
+      if (this.currentSession?.tracks && this.systemState === 'loading') {
+        // Switching files - the position reported while the next file loads is meaningless
+        return;
+      }
+      
+      this.currentTime = this._getSessionTime();
+      
+      // Multi-file sessions end at the episode's end, even if the file continues
+      if (this.currentSession?.tracks && !this.audio.paused && this.currentTime >= this.currentDuration) {
+        console.log('[Orchestrator] Reached end of episode within file');
+        this.audio.pause();
+        this._handleEpisodeEnded();
+        return;
+      }
       
       // Periodic sync during playback
       if (this.currentSession && this.systemState === 'ready') {
@@ -323,21 +521,20 @@ export class PlaybackOrchestrator extends EventTarget {
       this._updateXmbState();
     });
 
-    // Episode ended
+    // File ended - continue with the next file of the episode, or finish the episode
     this.audio.addEventListener('ended', () => {
-      console.log('[Orchestrator] Episode ended');
+      const tracks = this.currentSession?.tracks;
+      const nextTrack = tracks?.[this.currentTrackIndex + 1];
       
-      // Clear play intent (episode is done)
-      this.userIntent = null;
-      this._updateXmbState();
+      if (nextTrack && nextTrack.startOffset < this.currentDuration) {
+        console.log('[Orchestrator] File ended, continuing with next file');
+        this.systemState = 'loading';
+        this._loadAudioAt(nextTrack.startOffset);
+        this._updateXmbState();
+        return;
+      }
       
-      // Delay auto-advance to allow pause animation to complete
-      this.autoAdvanceTimeout = window.setTimeout(() => {
-        this.autoAdvanceTimeout = null;
-        
-        // Auto-advance to next episode
-        this._handleAutoAdvance();
-      }, 300);
+      this._handleEpisodeEnded();
     });
 
     // Audio loading started
@@ -345,14 +542,64 @@ export class PlaybackOrchestrator extends EventTarget {
       console.log('[Orchestrator] Audio loading started');
     });
 
-    // Audio error
+    // Audio error - try the session's next fallback URL before giving up
     this.audio.addEventListener('error', () => {
       console.error('[Orchestrator] Audio error:', this.audio.error);
-      this.systemState = 'error';
-      this._updateXmbState();
+      
+      const fallbackUrls = this.currentSession?.tracks ? undefined : this.currentSession?.fallbackUrls;
+      if (fallbackUrls && this.fallbackUrlsTried < fallbackUrls.length) {
+        // Resume where playback was, or at the session's start position if it never got going
+        const position = this.systemState === 'ready' ? this.currentTime : this.lastSyncedPosition;
+        this.fallbackUrlsTried++;
+        console.warn(`[Orchestrator] Trying fallback URL ${this.fallbackUrlsTried}/${fallbackUrls.length}`);
+        this.systemState = 'loading';
+        this._loadAudioAt(position);
+        this._updateXmbState();
+        return;
+      }
+      
+      this._enterErrorState(this._audioError());
     });
   }
 
+  /**
+   * RepositoryError for the audio element's current error
+   * The element doesn't expose HTTP status codes, so e.g. an expired token shows up as
+   * an unsupported source as well.
+   */
+  private _audioError(): RepositoryError {
+    const mediaError = this.audio.error;
+    const message = `Audio error ${mediaError?.code}: ${mediaError?.message || 'unknown'}`;
+    switch (mediaError?.code) {
+      case MediaError.MEDIA_ERR_NETWORK:
+        return new NetworkError(message);
+      case MediaError.MEDIA_ERR_DECODE:
+      case MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED:
+        return new UnsupportedFormatError(message);
+      default:
+        return new ServerError(message);
+    }
+  }
+
+  /**
+   * Episode played to the end - clear intent and schedule auto-advance
+   */
+  private _handleEpisodeEnded(): void {
+    console.log('[Orchestrator] Episode ended');
+    
+    // Clear play intent (episode is done)
+    this.userIntent = null;
+    this._updateXmbState();
+    
+    // Delay auto-advance to allow pause animation to complete
+    this.autoAdvanceTimeout = window.setTimeout(() => {
+      this.autoAdvanceTimeout = null;
+      
+      // Auto-advance to next episode
+      this._handleAutoAdvance();
+    }, 300);
+  }
+
   /**
    * Setup XMB browser event listeners (user interactions)
    */
@@ -379,6 +626,17 @@ export class PlaybackOrchestrator extends EventTarget {
       const { show, episode } = customEvent.detail;
       this.loadEpisode(show.id, episode.id, show.title, episode.title);
     });
+
+    // User picked an action from the episode menu
+    this.xmbBrowser.addEventListener('episode-action', (e: Event) => {
+      const customEvent = e as CustomEvent;
+      const { showId, episodeId, action } = customEvent.detail;
+      if (action === 'reset-progress') {
+        this.resetProgress(showId, episodeId);
+      } else {
+        this.markFinished(showId, episodeId, action === 'mark-finished');
+      }
+    });
   }
 
   /**
@@ -422,6 +680,9 @@ export class PlaybackOrchestrator extends EventTarget {
     this.xmbBrowser.isPlaying = state.isPlaying;
     this.xmbBrowser.isLoading = state.isLoading;
     this.xmbBrowser.playbackProgress = state.progress;
+    this.xmbBrowser.errorMessage = state.error
+      ? describeError(state.error)
+      : this.syncError ? `Progress not saved: ${describeError(this.syncError)}` : null;
     
     // Emit state change event for external listeners
     this.dispatchEvent(new CustomEvent('state-change', { detail: state }));
@@ -440,19 +701,29 @@ export class PlaybackOrchestrator extends EventTarget {
   private async _stopSession(): Promise<void> {
     if (this.currentSession) {
       await this._syncNow();
-      await this.mediaRepository.endPlayback(this.currentSession.sessionId);
+      try {
+        await this.mediaRepository.endPlayback(this.currentSession.sessionId);
+      } catch (error) {
+        // The next session doesn't depend on it
+        console.warn('[Orchestrator] Error ending playback session:', error);
+      }
     }
 
     this.currentSession = null;
     this.currentShowId = null;
     this.currentEpisodeId = null;
     this.currentDuration = 0;
+    this.currentTrackIndex = 0;
+    this.fallbackUrlsTried = 0;
     this.lastSyncedPosition = 0;
     this.lastSyncTime = 0;
+    this.syncError = null;
   }
 
   /**
    * Sync current progress to media repository
+   * A failed sync is shown but doesn't interrupt playback - the next periodic sync (or the
+   * sync on pause) retries with the then current position.
    */
   private async _syncNow(): Promise<void> {
     if (!this.currentSession || this.systemState !== 'ready') {
@@ -461,21 +732,34 @@ export class PlaybackOrchestrator extends EventTarget {
 
     const currentTime = this.currentTime;
 
-    if (Math.abs(currentTime - this.lastSyncedPosition) < 1.0) {
+    if (!this.syncError && Math.abs(currentTime - this.lastSyncedPosition) < 1.0) {
       return;
     }
 
     const timeListened = Math.max(0, currentTime - this.lastSyncTime);
+    const previousSyncTime = this.lastSyncTime;
 
     this.lastSyncedPosition = currentTime;
     this.lastSyncTime = currentTime;
 
-    await this.mediaRepository.updateProgress(
-      this.currentSession.sessionId,
-      currentTime,
-      this.currentDuration,
-      timeListened
-    );
+    try {
+      await this.mediaRepository.updateProgress(
+        this.currentSession.sessionId,
+        currentTime,
+        this.currentDuration,
+        timeListened
+      );
+      if (this.syncError) {
+        this.syncError = null;
+        this._updateXmbState();
+      }
+    } catch (error) {
+      console.error('[Orchestrator] Error syncing progress:', error);
+      // Count the time listened again next time
+      this.lastSyncTime = previousSyncTime;
+      this.syncError = toRepositoryError(error, 'Syncing progress');
+      this._updateXmbState();
+    }
   }
 
   /**
@@ -1,6 +1,7 @@
 import { LitElement, html, css, PropertyValues, unsafeCSS } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
-import { Show, Episode } from '../catalog/media-repository.js';
+import { customElement, property, state } from 'lit/decorators.js';
+import { live } from 'lit/directives/live.js';
+import { Show, Episode, EpisodeProgress } from '../catalog/media-repository.js';
 import { AnimationController } from './controllers/animation-controller.js';
 import { NavigationController } from './controllers/navigation-controller.js';
 import { CircularProgressController } from './controllers/circular-progress-controller.js';
@@ -36,6 +37,29 @@ export interface XmbSeekEventDetail {
   progress: number; // 0 to 1
 }
 
+/**
+ * Event detail for episode-action event
+ */
+export interface XmbEpisodeActionEventDetail {
+  showId: string;
+  episodeId: string;
+  action: 'mark-finished' | 'mark-unfinished' | 'reset-progress';
+}
+
+/**
+ * Whether an episode shows the progress bar (started, but not finished)
+ */
+function hasPartialProgress(episode: Episode): boolean {
+  return !episode.isFinished && !!episode.progress;
+}
+
+/**
+ * Width of the progress bar fill - the same string is rendered and set directly
+ */
+function progressFillStyle(episode: Episode): string {
+  return `width: ${Math.min(episode.progress ?? 0, 1) * 100}%`;
+}
+
 interface EpisodeElement {
   element: HTMLElement;
   showIndex: number;
@@ -61,6 +85,9 @@ interface DOMRefs {
   // Playback titles (single instances)
   playbackShowTitle: HTMLElement | null;
   playbackEpisodeTitle: HTMLElement | null;
+  
+  // Episode menu toggle (single instance, at the center episode)
+  episodeActions: HTMLElement | null;
 }
 
 /**
@@ -70,20 +97,30 @@ interface DOMRefs {
  * @fires play-request - Fired when user clicks play button
  * @fires pause-request - Fired when user clicks pause button
  * @fires seek - Fired when user drags the circular progress scrubber. Detail: { progress }
+ * @fires episode-action - Fired when user picks an action from the episode menu. Detail: { showId, episodeId, action }
  * 
  * @property {Show[]} shows - Array of shows with episodes
  * @property {boolean} isPlaying - Current playback state (for display only)
  * @property {number} playbackProgress - Current playback progress 0-1 (for display only)
+ * @property {string | null} errorMessage - Playback error shown below the current episode (for display only)
+ * @property {boolean} episodeActionsEnabled - Whether the paused center episode offers its menu
  * 
  * Public Methods:
  * - navigateToEpisode(showId: string, episodeId?: string): boolean - Navigate to specific show/episode
  * - navigateToNextEpisode(): { show: Show; episode: Episode } | null - Navigate to next episode in current show
  * - getCurrentSelection(): { show: Show; episode: Episode } | null - Get currently selected show and episode
+ * - setEpisodeProgress(showId: string, episodeId: string, patch): void - Update an episode's progress display
  */
 @customElement('xmb-browser')
 export class XmbBrowser extends LitElement {
   @property({ type: Array }) shows: Show[] = [];
   @property({ type: Object }) config: PlayerConfig = {};
+  // Changes rarely (load failures, failed syncs), so a regular re-render is fine
+  @property({ type: String }) errorMessage: string | null = null;
+  @property({ type: Boolean }) episodeActionsEnabled = false;
+
+  // Only opened while paused, so re-rendering for it doesn't affect playback
+  @state() private episodeMenuOpen = false;
 
   // Manual properties for playback state - these don't trigger Lit re-renders
   // Instead, they call handlers directly for performance optimization
@@ -175,6 +212,7 @@ export class XmbBrowser extends LitElement {
     playheadHitbox: null,
     playbackShowTitle: null,
     playbackEpisodeTitle: null,
+    episodeActions: null,
   };
 
   constructor() {
@@ -276,6 +314,7 @@ export class XmbBrowser extends LitElement {
    * Expected updates during playback:
    * - 'config' - Parent re-renders when playbackState changes, passes same config object
    * - 'shows' - Only on initial load or catalog changes
+   * - 'episodeMenuOpen' - Only while paused
    * 
    * Unexpected updates during playback (would indicate a bug):
    * - No property name (internal requestUpdate call)
@@ -285,7 +324,7 @@ export class XmbBrowser extends LitElement {
     // Guard against early calls during initialization (before config is set)
     if (this.config?.tracePerformance) {
       // Only log unexpected updates - 'config' and 'shows' are expected from parent re-renders
-      const isExpectedUpdate = name === 'config' || name === 'shows';
+      const isExpectedUpdate = name === 'config' || name === 'shows' || name === 'episodeMenuOpen';
       if (!isExpectedUpdate) {
         console.warn('[LIT] UNEXPECTED requestUpdate:', name ?? 'no property', 
           this._isPlaying ? '(DURING PLAYBACK!)' : '');
@@ -301,6 +340,31 @@ export class XmbBrowser extends LitElement {
     }
     // Note: isPlaying, isLoading, and playbackProgress are now manual properties
     // Their state changes are handled by their setters, not by willUpdate()
+
+    // Catalog replaced after initial load (e.g. refreshed from the server)
+    const oldShows = changedProperties.get('shows') as Show[] | undefined;
+    if (changedProperties.has('shows') && oldShows && oldShows.length > 0) {
+      this._preserveSelection(oldShows);
+    }
+  }
+
+  /**
+   * Keeps the current show selected when the shows array is replaced, and moves the
+   * play/pause button back to its original place so re-rendering can't remove it
+   * together with an episode element.
+   */
+  private _preserveSelection(oldShows: Show[]): void {
+    const selectedShowId = oldShows[this.currentShowIndex]?.id;
+    const newIndex = this.shows.findIndex((show) => show.id === selectedShowId);
+    this.currentShowIndex = newIndex !== -1
+      ? newIndex
+      : Math.max(0, Math.min(this.currentShowIndex, this.shows.length - 1));
+
+    const button = this.domRefs.playPauseButton;
+    const circularProgress = this.shadowRoot?.querySelector('.circular-progress');
+    if (button && circularProgress && button.parentNode !== this.shadowRoot) {
+      this.shadowRoot!.insertBefore(button, circularProgress);
+    }
   }
 
   updated(changedProperties: PropertyValues): void {
@@ -318,7 +382,7 @@ export class XmbBrowser extends LitElement {
         // Refresh DOM references after structure changes
         this.refreshDOMRefs();
         
-        // Note: Don't call reparentButtonToCurrentEpisode() here.
+        // Note: Don't call reparentButtonToCurrentEpisode() here on first load.
         // The parent component may restore saved state via navigateToEpisode() after this,
         // which will position the button correctly. For fresh starts, the button will be
         // positioned when the first navigation occurs or when navigateToEpisode() is called.
@@ -334,6 +398,15 @@ export class XmbBrowser extends LitElement {
         // Using setTimeout ensures we're not in the update cycle when requestUpdate() is called
         setTimeout(() => this.updateVisuals(), 0);
       }
+
+      // Catalog replaced: _preserveSelection() detached the button, put it back on the
+      // selected episode (which may now be at a different index)
+      if (oldShows && oldShows.length > 0) {
+        this.reparentButtonToCurrentEpisode();
+        if (!structureChanged) {
+          setTimeout(() => this.updateVisuals(), 0);
+        }
+      }
     }
   }
 
@@ -412,6 +485,9 @@ export class XmbBrowser extends LitElement {
     // Query playback title elements
     this.domRefs.playbackShowTitle = this.shadowRoot!.querySelector('.playback-show-title') as HTMLElement;
     this.domRefs.playbackEpisodeTitle = this.shadowRoot!.querySelector('.playback-episode-title') as HTMLElement;
+    
+    // Query episode menu
+    this.domRefs.episodeActions = this.shadowRoot!.querySelector('.episode-actions') as HTMLElement;
   }
 
   /**
@@ -488,6 +564,8 @@ export class XmbBrowser extends LitElement {
     
     // Transition from paused to loading/playing
     if (!wasActive && isActive) {
+      this.episodeMenuOpen = false;
+
       // Check if we're in auto-advance (snap animation is running)
       const isAutoAdvance = this.navigationController.isSnapping();
       
@@ -705,6 +783,11 @@ export class XmbBrowser extends LitElement {
     this.domRefs.playPauseButton!.style.opacity = clampedScale.toString();
     this.domRefs.playPauseButton!.style.pointerEvents = clampedScale > 0 ? 'auto' : 'none';
 
+    // Episode menu fades with the button, but is only offered while paused
+    const actionsOpacity = this.isPlaying || this.isLoading ? 0 : clampedScale;
+    this.domRefs.episodeActions!.style.opacity = actionsOpacity.toString();
+    this.domRefs.episodeActions!.style.pointerEvents = actionsOpacity > 0 ? 'auto' : 'none';
+
     // Update playback titles via direct DOM manipulation
     // These titles show during playback and fade out when paused
     // Get current show and episode for title text content
@@ -951,6 +1034,7 @@ export class XmbBrowser extends LitElement {
     this.animationController.cancelVerticalDragFade();
     this.animationController.cancelHorizontalDragFade();
 
+    this.episodeMenuOpen = false;
     this.navigationController.startDrag(offsetX, offsetY, false);
     
     // Start high-frequency loop for drag
@@ -970,6 +1054,18 @@ export class XmbBrowser extends LitElement {
     this.inputController.handlePlayPauseClick(e);
   };
 
+  private _handleEpisodeMenuToggle = (): void => {
+    this.episodeMenuOpen = !this.episodeMenuOpen;
+  };
+
+  private _handleEpisodeAction(action: XmbEpisodeActionEventDetail['action']): void {
+    this.episodeMenuOpen = false;
+    const selection = this.getCurrentSelection();
+    if (selection) {
+      this._emitEpisodeAction(selection.show.id, selection.episode.id, action);
+    }
+  }
+
   // ============================================================================
   // EVENT EMITTERS
   // ============================================================================
@@ -999,6 +1095,15 @@ export class XmbBrowser extends LitElement {
     this.dispatchEvent(event);
   }
 
+  private _emitEpisodeAction(showId: string, episodeId: string, action: XmbEpisodeActionEventDetail['action']): void {
+    const event = new CustomEvent<XmbEpisodeActionEventDetail>('episode-action', {
+      detail: { showId, episodeId, action },
+      bubbles: true,
+      composed: true,
+    });
+    this.dispatchEvent(event);
+  }
+
   private _emitEpisodeChange(show: Show, episode: Episode): void {
     // Prevent duplicate episode-change events for the same episode
     // This can happen when snap animation completes after user has already navigated
@@ -1129,6 +1234,36 @@ export class XmbBrowser extends LitElement {
     return { show, episode };
   }
 
+  /**
+   * Update the listening progress shown on an episode (e.g. after marking it as finished)
+   * @param showId - The ID of the show
+   * @param episodeId - The ID of the episode
+   * @param patch - Progress fields to overwrite
+   */
+  public setEpisodeProgress(
+    showId: string,
+    episodeId: string,
+    patch: EpisodeProgress
+  ): void {
+    const showIndex = this.shows.findIndex((s) => s.id === showId);
+    const episodeIndex = this.shows[showIndex]?.episodes.findIndex((ep) => ep.id === episodeId) ?? -1;
+    if (episodeIndex === -1) return;
+
+    // Episodes are shared with the parent, so update in place instead of replacing the catalog
+    const episode = this.shows[showIndex].episodes[episodeIndex];
+    Object.assign(episode, patch);
+
+    // Only this episode's elements change - no re-render of the whole catalog
+    const entry = this.episodeElements.find(
+      e => e.showIndex === showIndex && e.episodeIndex === episodeIndex
+    );
+    if (!entry) return;
+
+    entry.element.querySelector('.episode-progress')!.toggleAttribute('hidden', !hasPartialProgress(episode));
+    entry.element.querySelector('.episode-progress-fill')!.setAttribute('style', progressFillStyle(episode));
+    entry.element.querySelector('.episode-finished')!.toggleAttribute('hidden', !episode.isFinished);
+  }
+
   /**
    * Navigate to the next episode in the current show
    * Uses the same animation as manual navigation
@@ -1496,6 +1631,22 @@ export class XmbBrowser extends LitElement {
   // RENDER METHOD
   // ============================================================================
 
+  private _renderEpisodeMenu() {
+    const episode = this.getCurrentSelection()?.episode;
+    if (!episode) {
+      return '';
+    }
+
+    return html`
+      <div class="episode-actions-menu">
+        ${episode.isFinished
+          ? html`<button @click=${() => this._handleEpisodeAction('mark-unfinished')}>Mark as not finished</button>`
+          : html`<button @click=${() => this._handleEpisodeAction('mark-finished')}>Mark as finished</button>`}
+        <button @click=${() => this._handleEpisodeAction('reset-progress')}>Reset progress</button>
+      </div>
+    `;
+  }
+
   render() {
     // Note: Dynamic values like progressOffset, playheadX/Y, and progressOpacity
     // are now handled by updatePlaybackUI() via direct DOM manipulation.
@@ -1522,7 +1673,7 @@ export class XmbBrowser extends LitElement {
                 ${(() => {
                   // Use episode icon if available, otherwise fall back to show icon
                   const iconToUse = episode.icon || show.icon;
-                  const isEmoji = !iconToUse.startsWith('http');
+                  const isEmoji = !iconToUse.startsWith('http') && !iconToUse.startsWith('blob:');
                   return html`
                     <div class="icon-main ${isEmoji ? 'emoji-icon' : ''}">
                       ${isEmoji
@@ -1532,7 +1683,14 @@ export class XmbBrowser extends LitElement {
                     </div>
                   `;
                 })()}
-                <div class="episode-badge">${episode.episodeNumber || (episodeIndex + 1)}</div>
+                <!-- Always rendered - setEpisodeProgress() updates them directly, live() keeps Lit in sync -->
+                <div class="episode-progress" ?hidden=${live(!hasPartialProgress(episode))}>
+                  <div class="episode-progress-fill" style=${live(progressFillStyle(episode))}></div>
+                </div>
+                <div class="episode-badges">
+                  <div class="episode-finished" ?hidden=${live(!episode.isFinished)}>✓</div>
+                  <div class="episode-badge">${episode.episodeNumber || (episodeIndex + 1)}</div>
+                </div>
               </div>
             `;
         }
@@ -1555,6 +1713,13 @@ export class XmbBrowser extends LitElement {
         </svg>
       </div>
       
+      <!-- Episode menu - always rendered at the center episode's top left corner -->
+      <!-- Opacity follows the play/pause button via direct DOM manipulation in updateVisuals() -->
+      <div class="episode-actions" ?hidden=${!this.episodeActionsEnabled} style="opacity: 0; pointer-events: none;">
+        <button class="episode-actions-toggle" title="Episode actions" @click=${this._handleEpisodeMenuToggle}>⋯</button>
+        ${this.episodeMenuOpen ? this._renderEpisodeMenu() : ''}
+      </div>
+      
       <!-- Circular progress SVG - always rendered, visibility controlled by opacity -->
       <!-- Dynamic values (stroke-dashoffset, playhead position, opacity) are updated via direct DOM manipulation -->
       <svg 
@@ -1620,6 +1785,14 @@ export class XmbBrowser extends LitElement {
         "
       ></div>
       
+      <!-- Playback error - shown while the orchestrator reports one, in paused and playing state -->
+      ${this.errorMessage ? html`
+        <div 
+          class="playback-error"
+          style="top: calc(50% + ${progressRadius + XMB_CONFIG.playbackErrorOffset}px);"
+        >${this.errorMessage}</div>
+      ` : ''}
+      
       <!-- Navigation labels - always rendered, updated via direct DOM manipulation -->
       <!-- Episode titles: one per episode, shown during vertical drag -->
       ${this.shows.flatMap((show, showIndex) =>
@@ -1638,7 +1811,7 @@ export class XmbBrowser extends LitElement {
           class="show-title"
           data-show-index="${showIndex}"
           style="left: 50%; top: 50%; opacity: 0;"
-        >${show.title}</div>
+        >${show.group ? html`<span class="show-group">${show.group}</span>` : ''}${show.title}</div>
       `)}
     
     ${this.config.tracePerformance ? html`
@@ -29,6 +29,7 @@ export const XMB_CONFIG = {
   
   // ===== Labels & Badges =====
   badgeScale: 0.10,            // Episode badge size as fraction of icon height (0.1 = 10%)
+  episodeProgressScale: 0.05,  // Episode listening progress bar height as fraction of icon height
   showTitleFontSize: 12,      // Show title font size
   episodeTitleFontSize: 14,   // Episode title font size
   
@@ -37,6 +38,7 @@ export const XMB_CONFIG = {
   verticalLabelOffset: 10,    // Offset for vertical show titles
   playbackTitleTopOffset: 40, // Offset for playback show title
   playbackTitleBottomOffset: 20, // Offset for playback episode title
+  playbackErrorOffset: 48,    // Offset for playback error message (below the episode title)
   
   // ===== Animation Timing =====
   snapDuration: 500,          // Snap animation duration (ms)
@@ -67,6 +69,11 @@ export const XMB_COMPUTED = {
     return XMB_CONFIG.baseIconSize * XMB_CONFIG.maxZoom;
   },
   
+  // Resolution to request cover art at: the largest icon in physical pixels
+  get coverSize(): number {
+    return Math.ceil(this.iconSize * (window.devicePixelRatio || 1));
+  },
+  
   get progressRadius(): number {
     return XMB_CONFIG.baseIconSize * XMB_CONFIG.progressRadiusMultiplier;
   },
@@ -113,6 +120,7 @@ export function generateCSSVariables(): string {
       --xmb-play-button-icon-size: ${XMB_CONFIG.playButtonIconSize}px;
       --xmb-playhead-radius: ${XMB_CONFIG.playheadRadius}px;
       --xmb-badge-scale: ${XMB_CONFIG.badgeScale};
+      --xmb-episode-progress-scale: ${XMB_CONFIG.episodeProgressScale};
       --xmb-show-title-font-size: ${XMB_CONFIG.showTitleFontSize}px;
       --xmb-episode-title-font-size: ${XMB_CONFIG.episodeTitleFontSize}px;
       --xmb-label-spacing: ${XMB_CONFIG.labelSpacing}px;